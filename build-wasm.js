@@ -0,0 +1,21 @@
+// Compiles src/montgomery.wat with wabt and embeds the module in
+// src/wasm-backend.ts as base64
+const { readFileSync, writeFileSync } = require("fs");
+const wabt = require("wabt");
+
+const WAT = "src/montgomery.wat";
+const BACKEND = "src/wasm-backend.ts";
+
+(async () => {
+  const module = (await wabt()).parseWat(WAT, readFileSync(WAT, "utf8"));
+  const base64 = Buffer.from(module.toBinary({}).buffer).toString("base64");
+  const source = readFileSync(BACKEND, "utf8");
+  const embedded = /(const MONTGOMERY_WASM =\s*)"[A-Za-z0-9+/=]*"/;
+  if (!embedded.test(source)) {
+    throw new Error(`MONTGOMERY_WASM not found in ${BACKEND}`);
+  }
+  writeFileSync(BACKEND, source.replace(embedded, `$1"${base64}"`));
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -151,7 +151,7 @@ const serverStep1 = await server.step1(username, s, v);`,
 {
   end: "server",
   code:
-`const M2 = await serverStep1.step2(A, M1);
+`const {M2} = await serverStep1.step2(A, M1);
 // client has logged in without sending password`,
   return: `M2`
 },
@@ -55,11 +55,11 @@ async function main() {
   console.log('Client: step2 complete, A =', clientStep2.A.toString(16).slice(0, 20) + '...');
 
   // Server step 2 (verification)
-  const M2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
-  console.log('Server: verified client, M2 generated');
+  const serverStep2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
+  console.log('Server: verified client', serverStep2.identifier + ', M2 generated');
 
   // Client step 3 (verification)
-  await clientStep2.step3(M2);
+  await clientStep2.step3(serverStep2.M2);
   console.log('Client: verified server');
   console.log('✓ Mutual authentication complete!\n');
 
@@ -75,8 +75,7 @@ async function main() {
   console.log('  Encrypted (CT):', Buffer.from(encrypted.ciphertext).toString('hex').slice(0, 32) + '...');
 
   // Server расшифровывает
-  const decryptedOnServer = await serverStep1.decryptToString(
-    clientStep2.A,
+  const decryptedOnServer = await serverStep2.decryptToString(
     encrypted.iv,
     encrypted.ciphertext,
   );
@@ -87,10 +86,7 @@ async function main() {
   const serverResponse = 'Authentication successful. Welcome!';
   console.log('\nServer sends:', JSON.stringify(serverResponse));
 
-  const encryptedResponse = await serverStep1.encrypt(
-    clientStep2.A,
-    serverResponse,
-  );
+  const encryptedResponse = await serverStep2.encrypt(serverResponse);
   console.log('  Encrypted (IV):', Buffer.from(encryptedResponse.iv).toString('hex').slice(0, 32) + '...');
   console.log('  Encrypted (CT):', Buffer.from(encryptedResponse.ciphertext).toString('hex').slice(0, 32) + '...');
 
@@ -108,7 +104,7 @@ async function main() {
   tampered[0] ^= 0xff; // изменяем один байт
 
   try {
-    await serverStep1.decrypt(clientStep2.A, encrypted.iv, tampered.buffer);
+    await serverStep2.decrypt(encrypted.iv, tampered.buffer);
     console.log('✗ Tampering NOT detected (this is bad!)');
   } catch (error) {
     console.log('✓ Tampering detected:', (error as Error).message);
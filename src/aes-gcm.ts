@@ -0,0 +1,268 @@
+import { constantTimeEqual } from "./constant-time";
+import type { AeadCipher } from "./cross-env-crypto";
+
+/**
+ * AES-GCM (NIST SP 800-38D) in plain TypeScript, used when Web Crypto Subtle
+ * is not available. Output is identical to the native implementation: the
+ * ciphertext followed by a 16 byte tag.
+ *
+ * Table lookups depend on secret data, so this implementation is not hardened
+ * against cache timing attacks. Prefer the native one whenever it exists.
+ */
+
+const TAG_BYTES = 16;
+
+// S-box generated from the multiplicative inverse in GF(2^8) and the affine
+// transformation, see FIPS 197 section 5.1.1
+const SBOX = new Uint8Array(256);
+const rotl8 = (x: number, shift: number) =>
+  ((x << shift) | (x >>> (8 - shift))) & 0xff;
+{
+  let p = 1;
+  let q = 1;
+  do {
+    // multiply p by 3
+    p = p ^ ((p << 1) & 0xff) ^ (p & 0x80 ? 0x1b : 0);
+    // divide q by 3
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) {
+      q ^= 0x09;
+    }
+    SBOX[p] = q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+}
+
+const xtime = (x: number) => ((x << 1) ^ (x & 0x80 ? 0x1b : 0)) & 0xff;
+
+function expandKey(key: Uint8Array): Uint8Array {
+  const Nk = key.length / 4;
+  if (![4, 6, 8].includes(Nk)) {
+    throw new Error(`Invalid AES key length: ${key.length}`);
+  }
+  const rounds = Nk + 6;
+  const w = new Uint8Array(16 * (rounds + 1));
+  w.set(key);
+  let rcon = 1;
+  for (let i = Nk; i < 4 * (rounds + 1); i++) {
+    let t = w.slice(4 * (i - 1), 4 * i);
+    if (i % Nk === 0) {
+      t = new Uint8Array([
+        SBOX[t[1]] ^ rcon,
+        SBOX[t[2]],
+        SBOX[t[3]],
+        SBOX[t[0]],
+      ]);
+      rcon = xtime(rcon);
+    } else if (Nk > 6 && i % Nk === 4) {
+      t = t.map((byte) => SBOX[byte]);
+    }
+    for (let j = 0; j < 4; j++) {
+      w[4 * i + j] = w[4 * (i - Nk) + j] ^ t[j];
+    }
+  }
+  return w;
+}
+
+/**
+ * Encrypt one 16 byte block in place.
+ */
+function encryptBlock(roundKeys: Uint8Array, s: Uint8Array) {
+  const rounds = roundKeys.length / 16 - 1;
+  for (let i = 0; i < 16; i++) {
+    s[i] ^= roundKeys[i];
+  }
+  for (let round = 1; round <= rounds; round++) {
+    // SubBytes and ShiftRows, byte i of the state is row i % 4
+    const t = new Uint8Array(16);
+    for (let i = 0; i < 16; i++) {
+      t[i] = SBOX[s[(i + 4 * (i % 4)) % 16]];
+    }
+    if (round < rounds) {
+      // MixColumns
+      for (let c = 0; c < 16; c += 4) {
+        const [a0, a1, a2, a3] = [t[c], t[c + 1], t[c + 2], t[c + 3]];
+        const all = a0 ^ a1 ^ a2 ^ a3;
+        t[c] ^= all ^ xtime(a0 ^ a1);
+        t[c + 1] ^= all ^ xtime(a1 ^ a2);
+        t[c + 2] ^= all ^ xtime(a2 ^ a3);
+        t[c + 3] ^= all ^ xtime(a3 ^ a0);
+      }
+    }
+    for (let i = 0; i < 16; i++) {
+      s[i] = t[i] ^ roundKeys[16 * round + i];
+    }
+  }
+}
+
+/**
+ * GHASH over 32 bit words, multiplication as in SP 800-38D algorithm 1.
+ */
+class GHash {
+  private readonly h: Uint32Array;
+
+  private readonly y = new Uint32Array(4);
+
+  constructor(subkey: Uint8Array) {
+    this.h = toWords(subkey);
+  }
+
+  /**
+   * Absorb data, zero padded to a multiple of 16 bytes.
+   */
+  public update(data: Uint8Array): this {
+    for (let offset = 0; offset < data.length; offset += 16) {
+      const block = new Uint8Array(16);
+      block.set(data.subarray(offset, offset + 16));
+      const x = toWords(block);
+      for (let i = 0; i < 4; i++) {
+        this.y[i] ^= x[i];
+      }
+      this.multiply();
+    }
+    return this;
+  }
+
+  public digest(): Uint8Array {
+    const out = new Uint8Array(16);
+    const view = new DataView(out.buffer);
+    this.y.forEach((word, i) => view.setUint32(4 * i, word));
+    return out;
+  }
+
+  private multiply() {
+    const z = new Uint32Array(4);
+    const v = this.h.slice();
+    for (let i = 0; i < 128; i++) {
+      if ((this.y[i >>> 5] >>> (31 - (i & 31))) & 1) {
+        for (let j = 0; j < 4; j++) {
+          z[j] ^= v[j];
+        }
+      }
+      const lsb = v[3] & 1;
+      v[3] = (v[3] >>> 1) | (v[2] << 31);
+      v[2] = (v[2] >>> 1) | (v[1] << 31);
+      v[1] = (v[1] >>> 1) | (v[0] << 31);
+      v[0] >>>= 1;
+      if (lsb) {
+        v[0] ^= 0xe1000000;
+      }
+    }
+    this.y.set(z);
+  }
+}
+
+const toWords = (block: Uint8Array): Uint32Array => {
+  const view = new DataView(block.buffer, block.byteOffset, 16);
+  return Uint32Array.from([0, 4, 8, 12], (offset) => view.getUint32(offset));
+};
+
+/**
+ * 64 bit big endian bit lengths of the additional data and the ciphertext.
+ */
+const lengthBlock = (aadBytes: number, ciphertextBytes: number) => {
+  const block = new Uint8Array(16);
+  const view = new DataView(block.buffer);
+  view.setBigUint64(0, BigInt(aadBytes) * BigInt(8));
+  view.setBigUint64(8, BigInt(ciphertextBytes) * BigInt(8));
+  return block;
+};
+
+interface GcmContext {
+  roundKeys: Uint8Array;
+  ghash: GHash;
+  j0: Uint8Array;
+}
+
+function init(key: ArrayBuffer, iv: ArrayBuffer): GcmContext {
+  const roundKeys = expandKey(new Uint8Array(key));
+  const subkey = new Uint8Array(16);
+  encryptBlock(roundKeys, subkey);
+
+  let j0: Uint8Array;
+  const ivBytes = new Uint8Array(iv);
+  if (ivBytes.length === 12) {
+    j0 = new Uint8Array(16);
+    j0.set(ivBytes);
+    j0[15] = 1;
+  } else {
+    if (ivBytes.length === 0) {
+      throw new Error("IV must not be empty");
+    }
+    j0 = new GHash(subkey)
+      .update(ivBytes)
+      .update(lengthBlock(0, ivBytes.length))
+      .digest();
+  }
+  return { roundKeys, ghash: new GHash(subkey), j0 };
+}
+
+/**
+ * CTR mode starting at inc32(J0).
+ */
+function ctr(roundKeys: Uint8Array, j0: Uint8Array, input: Uint8Array) {
+  const output = new Uint8Array(input.length);
+  const counter = j0.slice();
+  const view = new DataView(counter.buffer);
+  const keystream = new Uint8Array(16);
+  for (let offset = 0; offset < input.length; offset += 16) {
+    view.setUint32(12, (view.getUint32(12) + 1) >>> 0);
+    keystream.set(counter);
+    encryptBlock(roundKeys, keystream);
+    const end = Math.min(16, input.length - offset);
+    for (let i = 0; i < end; i++) {
+      output[offset + i] = input[offset + i] ^ keystream[i];
+    }
+  }
+  return output;
+}
+
+function tag(
+  { roundKeys, ghash, j0 }: GcmContext,
+  aad: Uint8Array,
+  ciphertext: Uint8Array,
+) {
+  const s = ghash
+    .update(aad)
+    .update(ciphertext)
+    .update(lengthBlock(aad.length, ciphertext.length))
+    .digest();
+  const mask = j0.slice();
+  encryptBlock(roundKeys, mask);
+  return s.map((byte, i) => byte ^ mask[i]);
+}
+
+export const aesGcm: AeadCipher = {
+  async encrypt(key, iv, plaintext, additionalData = new ArrayBuffer(0)) {
+    const context = init(key, iv);
+    const ciphertext = ctr(
+      context.roundKeys,
+      context.j0,
+      new Uint8Array(plaintext),
+    );
+    const sealed = new Uint8Array(ciphertext.length + TAG_BYTES);
+    sealed.set(ciphertext);
+    sealed.set(
+      tag(context, new Uint8Array(additionalData), ciphertext),
+      ciphertext.length,
+    );
+    return sealed.buffer;
+  },
+
+  async decrypt(key, iv, sealed, additionalData = new ArrayBuffer(0)) {
+    const bytes = new Uint8Array(sealed);
+    if (bytes.length < TAG_BYTES) {
+      throw new Error("Ciphertext too short");
+    }
+    const context = init(key, iv);
+    const ciphertext = bytes.subarray(0, bytes.length - TAG_BYTES);
+    const expected = tag(context, new Uint8Array(additionalData), ciphertext);
+    if (!constantTimeEqual(expected, bytes.subarray(ciphertext.length))) {
+      throw new Error("Authentication tag mismatch");
+    }
+    return ctr(context.roundKeys, context.j0, ciphertext).buffer;
+  },
+};
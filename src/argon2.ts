@@ -0,0 +1,318 @@
+import { blake2b, xorRotateRight } from "./blake2b";
+
+/**
+ * Argon2id version 1.3 (RFC 9106) in plain TypeScript, single threaded.
+ * Blocks are 1024 bytes stored as 256 32 bit words, 64 bit words are pairs
+ * of 32 bit words, low word first.
+ */
+
+export interface Argon2idOptions {
+  /**
+   * Memory size in KiB, at least 8 * parallelism
+   */
+  memoryKiB: number;
+  /**
+   * Number of passes over the memory
+   */
+  iterations: number;
+  parallelism: number;
+  tagLength: number;
+  secret?: Uint8Array;
+  associatedData?: Uint8Array;
+}
+
+const BLOCK_WORDS = 256;
+const SYNC_POINTS = 4;
+const VERSION = 0x13;
+const TYPE_ID = 2;
+
+const le32 = (n: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, n, true);
+  return bytes;
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return bytes;
+};
+
+/**
+ * Variable length hash H' of RFC 9106 section 3.3.
+ */
+function hashLong(input: Uint8Array, length: number): Uint8Array {
+  const prefixed = concat(le32(length), input);
+  if (length <= 64) {
+    return blake2b(prefixed, length);
+  }
+  const output = new Uint8Array(length);
+  const r = Math.ceil(length / 32) - 2;
+  let v = blake2b(prefixed);
+  output.set(v.subarray(0, 32));
+  for (let i = 1; i < r; i++) {
+    v = blake2b(v);
+    output.set(v.subarray(0, 32), 32 * i);
+  }
+  output.set(blake2b(v, length - 32 * r), 32 * r);
+  return output;
+}
+
+/**
+ * Upper 32 bits of the 64 bit product of two 32 bit numbers, the lower ones
+ * are stored in productLow.
+ */
+let productLow = 0;
+function multiplyHigh(x: number, y: number): number {
+  const x0 = x & 0xffff;
+  const x1 = x >>> 16;
+  const y0 = y & 0xffff;
+  const y1 = y >>> 16;
+  const p00 = x0 * y0;
+  const p01 = x0 * y1;
+  const p10 = x1 * y0;
+  const middle = (p00 >>> 16) + (p01 & 0xffff) + (p10 & 0xffff);
+  productLow = (((middle & 0xffff) << 16) | (p00 & 0xffff)) >>> 0;
+  return x1 * y1 + (p01 >>> 16) + (p10 >>> 16) + (middle >>> 16);
+}
+
+/**
+ * v[a] += v[b] + 2 * low32(v[a]) * low32(v[b])
+ */
+function blaMka(v: Uint32Array, a: number, b: number) {
+  const high = multiplyHigh(v[a], v[b]);
+  const low = v[a] + v[b] + ((productLow << 1) >>> 0);
+  v[a] = low;
+  v[a + 1] =
+    v[a + 1] +
+    v[b + 1] +
+    ((high << 1) | (productLow >>> 31)) +
+    Math.floor(low / 0x100000000);
+}
+
+function mix(v: Uint32Array, a: number, b: number, c: number, d: number) {
+  blaMka(v, a, b);
+  xorRotateRight(v, d, a, 32);
+  blaMka(v, c, d);
+  xorRotateRight(v, b, c, 24);
+  blaMka(v, a, b);
+  xorRotateRight(v, d, a, 16);
+  blaMka(v, c, d);
+  xorRotateRight(v, b, c, 63);
+}
+
+// offsets of the 16 64 bit words permuted together, 8 rows then 8 columns
+const PERMUTATIONS = [
+  ...Array.from({ length: 8 }, (_, i) =>
+    Array.from({ length: 16 }, (_, j) => 2 * (16 * i + j)),
+  ),
+  ...Array.from({ length: 8 }, (_, i) =>
+    Array.from({ length: 16 }, (_, j) => 2 * (2 * i + 16 * (j >> 1) + (j & 1))),
+  ),
+];
+
+const r = new Uint32Array(BLOCK_WORDS);
+const saved = new Uint32Array(BLOCK_WORDS);
+
+/**
+ * Compression function G: next = P(x ^ y) ^ x ^ y, XORed into the previous
+ * content of next if withXor is set.
+ */
+function compress(
+  memory: Uint32Array,
+  x: number,
+  y: number,
+  next: number,
+  withXor: boolean,
+) {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    r[i] = memory[x + i] ^ memory[y + i];
+    saved[i] = withXor ? r[i] ^ memory[next + i] : r[i];
+  }
+  for (const w of PERMUTATIONS) {
+    mix(r, w[0], w[4], w[8], w[12]);
+    mix(r, w[1], w[5], w[9], w[13]);
+    mix(r, w[2], w[6], w[10], w[14]);
+    mix(r, w[3], w[7], w[11], w[15]);
+    mix(r, w[0], w[5], w[10], w[15]);
+    mix(r, w[1], w[6], w[11], w[12]);
+    mix(r, w[2], w[7], w[8], w[13]);
+    mix(r, w[3], w[4], w[9], w[14]);
+  }
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    memory[next + i] = saved[i] ^ r[i];
+  }
+}
+
+const bytesToWords = (
+  bytes: Uint8Array,
+  words: Uint32Array,
+  offset: number,
+) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    words[offset + i] = view.getUint32(4 * i, true);
+  }
+};
+
+/**
+ * Argon2id tag of the password.
+ */
+export function argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  options: Argon2idOptions,
+): Uint8Array {
+  const {
+    memoryKiB,
+    iterations,
+    parallelism: lanes,
+    tagLength,
+    secret = new Uint8Array(0),
+    associatedData = new Uint8Array(0),
+  } = options;
+  if (!Number.isInteger(lanes) || lanes < 1 || lanes > 0xffffff) {
+    throw new Error(`Invalid Argon2 parallelism: ${lanes}`);
+  }
+  if (!Number.isInteger(memoryKiB) || memoryKiB < 8 * lanes) {
+    throw new Error(`Invalid Argon2 memory size: ${memoryKiB}`);
+  }
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error(`Invalid Argon2 iterations: ${iterations}`);
+  }
+  if (!Number.isInteger(tagLength) || tagLength < 4) {
+    throw new Error(`Invalid Argon2 tag length: ${tagLength}`);
+  }
+
+  const h0 = blake2b(
+    concat(
+      le32(lanes),
+      le32(tagLength),
+      le32(memoryKiB),
+      le32(iterations),
+      le32(VERSION),
+      le32(TYPE_ID),
+      le32(password.length),
+      password,
+      le32(salt.length),
+      salt,
+      le32(secret.length),
+      secret,
+      le32(associatedData.length),
+      associatedData,
+    ),
+  );
+
+  const segmentLength = Math.floor(memoryKiB / (SYNC_POINTS * lanes));
+  const laneLength = segmentLength * SYNC_POINTS;
+  const blockCount = laneLength * lanes;
+  const memory = new Uint32Array(blockCount * BLOCK_WORDS);
+  const blockOffset = (lane: number, column: number) =>
+    (lane * laneLength + column) * BLOCK_WORDS;
+
+  for (let lane = 0; lane < lanes; lane++) {
+    for (let column = 0; column < 2; column++) {
+      bytesToWords(
+        hashLong(concat(h0, le32(column), le32(lane)), 1024),
+        memory,
+        blockOffset(lane, column),
+      );
+    }
+  }
+
+  // data independent addressing: zero block, input block and address block
+  const scratch = new Uint32Array(3 * BLOCK_WORDS);
+  const ZERO_BLOCK = 0;
+  const INPUT_BLOCK = BLOCK_WORDS;
+  const ADDRESS_BLOCK = 2 * BLOCK_WORDS;
+  const nextAddresses = () => {
+    scratch[INPUT_BLOCK + 12]++;
+    compress(scratch, ZERO_BLOCK, INPUT_BLOCK, ADDRESS_BLOCK, false);
+    compress(scratch, ZERO_BLOCK, ADDRESS_BLOCK, ADDRESS_BLOCK, false);
+  };
+
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      const dataIndependent = pass === 0 && slice < SYNC_POINTS / 2;
+      for (let lane = 0; lane < lanes; lane++) {
+        if (dataIndependent) {
+          scratch.fill(0, INPUT_BLOCK);
+          scratch[INPUT_BLOCK] = pass;
+          scratch[INPUT_BLOCK + 2] = lane;
+          scratch[INPUT_BLOCK + 4] = slice;
+          scratch[INPUT_BLOCK + 6] = blockCount;
+          scratch[INPUT_BLOCK + 8] = iterations;
+          scratch[INPUT_BLOCK + 10] = TYPE_ID;
+        }
+        const start = pass === 0 && slice === 0 ? 2 : 0;
+        if (dataIndependent && start !== 0) {
+          nextAddresses();
+        }
+        for (let index = start; index < segmentLength; index++) {
+          const column = slice * segmentLength + index;
+          const previous = blockOffset(
+            lane,
+            column === 0 ? laneLength - 1 : column - 1,
+          );
+          let j1: number;
+          let j2: number;
+          if (dataIndependent) {
+            if (index % 128 === 0) {
+              nextAddresses();
+            }
+            j1 = scratch[ADDRESS_BLOCK + 2 * (index % 128)];
+            j2 = scratch[ADDRESS_BLOCK + 2 * (index % 128) + 1];
+          } else {
+            j1 = memory[previous];
+            j2 = memory[previous + 1];
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+          const sameLane = refLane === lane;
+          let areaSize: number;
+          if (pass === 0) {
+            areaSize = sameLane
+              ? slice * segmentLength + index - 1
+              : slice * segmentLength - (index === 0 ? 1 : 0);
+          } else {
+            areaSize = sameLane
+              ? laneLength - segmentLength + index - 1
+              : laneLength - segmentLength - (index === 0 ? 1 : 0);
+          }
+          const x = multiplyHigh(j1, j1);
+          const relative = areaSize - 1 - multiplyHigh(areaSize, x);
+          const startColumn =
+            pass === 0 || slice === SYNC_POINTS - 1
+              ? 0
+              : (slice + 1) * segmentLength;
+
+          compress(
+            memory,
+            previous,
+            blockOffset(refLane, (startColumn + relative) % laneLength),
+            blockOffset(lane, column),
+            pass > 0,
+          );
+        }
+      }
+    }
+  }
+
+  const final = memory.slice(
+    blockOffset(0, laneLength - 1),
+    blockOffset(0, laneLength),
+  );
+  for (let lane = 1; lane < lanes; lane++) {
+    const last = blockOffset(lane, laneLength - 1);
+    for (let i = 0; i < BLOCK_WORDS; i++) {
+      final[i] ^= memory[last + i];
+    }
+  }
+  const finalBytes = new Uint8Array(1024);
+  const view = new DataView(finalBytes.buffer);
+  final.forEach((word, i) => view.setUint32(4 * i, word, true));
+  return hashLong(finalBytes, tagLength);
+}
@@ -0,0 +1,106 @@
+import {
+  generatorTable,
+  modPowSlidingWindow,
+  modPowSquareAndMultiply,
+} from "./exponentiation";
+import { SRPParameters } from "./parameters";
+import { generateRandomBigInt } from "./utils";
+
+export interface ModPowBenchmarkOptions {
+  /**
+   * Size of the random exponents, the size of N by default like the private
+   * values of SRPRoutines
+   */
+  exponentBits?: number;
+  /**
+   * Time spent on each implementation, 1000 ms by default
+   */
+  durationMs?: number;
+}
+
+export interface ModPowBenchmarkResult {
+  /**
+   * Size of N
+   */
+  bits: number;
+  exponentBits: number;
+  /**
+   * Exponentiations per second of the square-and-multiply modPow of earlier
+   * versions
+   */
+  squareAndMultiply: number;
+  /**
+   * Exponentiations per second of modPow, with any base
+   */
+  slidingWindow: number;
+  /**
+   * Exponentiations per second of g with the precomputed table, as in
+   * computeVerifier, computeClientPublicValue and the server public value
+   */
+  fixedBase: number;
+  /**
+   * slidingWindow / squareAndMultiply
+   */
+  slidingWindowSpeedup: number;
+  /**
+   * fixedBase / squareAndMultiply
+   */
+  fixedBaseSpeedup: number;
+}
+
+const opsPerSecond = (
+  durationMs: number,
+  exponents: bigint[],
+  pow: (exponent: bigint) => bigint,
+): number => {
+  const start = performance.now();
+  let count = 0;
+  let elapsed = 0;
+  do {
+    pow(exponents[count % exponents.length]);
+    count++;
+    elapsed = performance.now() - start;
+  } while (elapsed < durationMs);
+  return (count * 1000) / elapsed;
+};
+
+/**
+ * Measure the exponentiations per second of modPow and of the fixed-base
+ * tables of g against the square-and-multiply implementation they replace,
+ * with the group of the parameters and random exponents.
+ */
+export async function benchmarkModPow(
+  parameters: SRPParameters = new SRPParameters(),
+  options: ModPowBenchmarkOptions = {},
+): Promise<ModPowBenchmarkResult> {
+  const { N, g } = parameters.primeGroup;
+  const exponentBits = options.exponentBits ?? parameters.NBits;
+  const durationMs = options.durationMs ?? 1000;
+  const exponents = await Promise.all(
+    Array.from({ length: 8 }, () =>
+      generateRandomBigInt(Math.ceil(exponentBits / 8)),
+    ),
+  );
+  const table = generatorTable(parameters);
+  // fill the table before timing it
+  exponents.forEach((exponent) => table.pow(exponent));
+
+  const squareAndMultiply = opsPerSecond(durationMs, exponents, (exponent) =>
+    modPowSquareAndMultiply(g, exponent, N),
+  );
+  const slidingWindow = opsPerSecond(durationMs, exponents, (exponent) =>
+    modPowSlidingWindow(g, exponent, N),
+  );
+  const fixedBase = opsPerSecond(durationMs, exponents, (exponent) =>
+    table.pow(exponent),
+  );
+  return {
+    bits: parameters.NBits,
+    exponentBits,
+    squareAndMultiply,
+    slidingWindow,
+    fixedBase,
+    slidingWindowSpeedup: slidingWindow / squareAndMultiply,
+    fixedBaseSpeedup: fixedBase / squareAndMultiply,
+  };
+}
@@ -0,0 +1,44 @@
+import { generatorTable } from "./exponentiation";
+import type { SRPParameters } from "./parameters";
+import { arrayBufferToBigInt, bigIntToArrayBuffer, modPow } from "./utils";
+
+/**
+ * Big integer arithmetic of SRPRoutines and the sessions. Operands are non
+ * negative, the modulus is N of the group.
+ */
+export interface BigIntBackend {
+  readonly name: string;
+  /**
+   * x^pow (mod mod)
+   */
+  modPow(x: bigint, pow: bigint, mod: bigint): bigint;
+  /**
+   * a * b (mod mod)
+   */
+  modMul(a: bigint, b: bigint, mod: bigint): bigint;
+  /**
+   * g^pow (mod N) of the parameters, backends may precompute powers of g
+   */
+  generatorPow(parameters: SRPParameters, pow: bigint): bigint;
+  /**
+   * Big-endian bytes without leading zero bytes
+   */
+  toBytes(n: bigint): ArrayBuffer;
+  /**
+   * Number of big-endian bytes
+   */
+  fromBytes(bytes: ArrayBuffer): bigint;
+}
+
+/**
+ * Native bigint arithmetic, the default backend. Fast for groups up to 2048
+ * bits, but its running time depends on the values.
+ */
+export const nativeBackend: BigIntBackend = {
+  name: "native",
+  modPow,
+  modMul: (a, b, mod) => (a * b) % mod,
+  generatorPow: (parameters, pow) => generatorTable(parameters).pow(pow),
+  toBytes: bigIntToArrayBuffer,
+  fromBytes: arrayBufferToBigInt,
+};
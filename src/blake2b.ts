@@ -0,0 +1,161 @@
+/**
+ * BLAKE2b (RFC 7693) in plain TypeScript. 64 bit words are stored as pairs of
+ * 32 bit words, low word first.
+ */
+
+const BLOCK_BYTES = 128;
+
+const IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372,
+  0x5f1d36f1, 0xa54ff53a, 0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c,
+  0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+].map((row) => row.map((word) => 2 * word));
+
+/**
+ * v[a] += v[b] + x, where a and b are offsets of 64 bit words.
+ */
+function add(v: Uint32Array, a: number, b: number, xLow = 0, xHigh = 0) {
+  const low = v[a] + v[b] + xLow;
+  v[a] = low;
+  v[a + 1] = v[a + 1] + v[b + 1] + xHigh + Math.floor(low / 0x100000000);
+}
+
+/**
+ * v[a] = (v[a] ^ v[b]) rotated right by 16, 24, 32 or 63 bits.
+ */
+export function xorRotateRight(
+  v: Uint32Array,
+  a: number,
+  b: number,
+  shift: number,
+) {
+  const low = v[a] ^ v[b];
+  const high = v[a + 1] ^ v[b + 1];
+  if (shift === 32) {
+    v[a] = high;
+    v[a + 1] = low;
+  } else if (shift === 63) {
+    v[a] = (low << 1) | (high >>> 31);
+    v[a + 1] = (high << 1) | (low >>> 31);
+  } else {
+    v[a] = (low >>> shift) | (high << (32 - shift));
+    v[a + 1] = (high >>> shift) | (low << (32 - shift));
+  }
+}
+
+function mix(
+  v: Uint32Array,
+  m: Uint32Array,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  x: number,
+  y: number,
+) {
+  add(v, a, b, m[x], m[x + 1]);
+  xorRotateRight(v, d, a, 32);
+  add(v, c, d);
+  xorRotateRight(v, b, c, 24);
+  add(v, a, b, m[y], m[y + 1]);
+  xorRotateRight(v, d, a, 16);
+  add(v, c, d);
+  xorRotateRight(v, b, c, 63);
+}
+
+function compress(
+  h: Uint32Array,
+  block: Uint8Array,
+  counter: number,
+  last: boolean,
+) {
+  const v = new Uint32Array(32);
+  v.set(h);
+  v.set(IV, 16);
+  v[24] ^= counter;
+  v[25] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+  const view = new DataView(block.buffer, block.byteOffset, BLOCK_BYTES);
+  const m = Uint32Array.from({ length: 32 }, (_, i) =>
+    view.getUint32(4 * i, true),
+  );
+  for (const s of SIGMA) {
+    mix(v, m, 0, 8, 16, 24, s[0], s[1]);
+    mix(v, m, 2, 10, 18, 26, s[2], s[3]);
+    mix(v, m, 4, 12, 20, 28, s[4], s[5]);
+    mix(v, m, 6, 14, 22, 30, s[6], s[7]);
+    mix(v, m, 0, 10, 20, 30, s[8], s[9]);
+    mix(v, m, 2, 12, 22, 24, s[10], s[11]);
+    mix(v, m, 4, 14, 16, 26, s[12], s[13]);
+    mix(v, m, 6, 8, 18, 28, s[14], s[15]);
+  }
+  for (let i = 0; i < 16; i++) {
+    h[i] ^= v[i] ^ v[i + 16];
+  }
+}
+
+/**
+ * BLAKE2b digest of 1 to 64 bytes, keyed with a key of up to 64 bytes.
+ */
+export function blake2b(
+  data: Uint8Array,
+  outputLength = 64,
+  key: Uint8Array = new Uint8Array(0),
+): Uint8Array {
+  if (
+    !Number.isInteger(outputLength) ||
+    outputLength < 1 ||
+    outputLength > 64
+  ) {
+    throw new Error(`Invalid BLAKE2b output length: ${outputLength}`);
+  }
+  if (key.length > 64) {
+    throw new Error(`Invalid BLAKE2b key length: ${key.length}`);
+  }
+  const h = IV.slice();
+  h[0] ^= 0x01010000 ^ (key.length << 8) ^ outputLength;
+
+  let input = data;
+  if (key.length > 0) {
+    input = new Uint8Array(BLOCK_BYTES + data.length);
+    input.set(key);
+    input.set(data, BLOCK_BYTES);
+  }
+  // the last block is compressed with the final flag, even when empty
+  const blocks = Math.max(1, Math.ceil(input.length / BLOCK_BYTES));
+  for (let i = 0; i < blocks - 1; i++) {
+    const offset = i * BLOCK_BYTES;
+    compress(
+      h,
+      input.subarray(offset, offset + BLOCK_BYTES),
+      offset + BLOCK_BYTES,
+      false,
+    );
+  }
+  const last = new Uint8Array(BLOCK_BYTES);
+  last.set(input.subarray((blocks - 1) * BLOCK_BYTES));
+  compress(h, last, input.length, true);
+
+  const digest = new Uint8Array(64);
+  const view = new DataView(digest.buffer);
+  h.forEach((word, i) => view.setUint32(4 * i, word, true));
+  return digest.slice(0, outputLength);
+}
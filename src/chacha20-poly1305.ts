@@ -0,0 +1,197 @@
+import { constantTimeEqual } from "./constant-time";
+import type { AeadCipher } from "./cross-env-crypto";
+
+/**
+ * ChaCha20-Poly1305 (RFC 8439) in plain TypeScript. Web Crypto has no
+ * ChaCha20, so this implementation is used in every environment.
+ */
+
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+
+const rotl32 = (x: number, shift: number) =>
+  (x << shift) | (x >>> (32 - shift));
+
+function quarterRound(
+  x: Uint32Array,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+) {
+  x[a] += x[b];
+  x[d] = rotl32(x[d] ^ x[a], 16);
+  x[c] += x[d];
+  x[b] = rotl32(x[b] ^ x[c], 12);
+  x[a] += x[b];
+  x[d] = rotl32(x[d] ^ x[a], 8);
+  x[c] += x[d];
+  x[b] = rotl32(x[b] ^ x[c], 7);
+}
+
+/**
+ * ChaCha20 block function, RFC 8439 section 2.3.
+ */
+export function chacha20Block(
+  key: Uint8Array,
+  counter: number,
+  nonce: Uint8Array,
+): Uint8Array {
+  const keyView = new DataView(key.buffer, key.byteOffset, KEY_BYTES);
+  const nonceView = new DataView(nonce.buffer, nonce.byteOffset, NONCE_BYTES);
+  const state = new Uint32Array(16);
+  // "expand 32-byte k"
+  state.set([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]);
+  for (let i = 0; i < 8; i++) {
+    state[4 + i] = keyView.getUint32(4 * i, true);
+  }
+  state[12] = counter;
+  for (let i = 0; i < 3; i++) {
+    state[13 + i] = nonceView.getUint32(4 * i, true);
+  }
+
+  const working = state.slice();
+  for (let i = 0; i < 10; i++) {
+    quarterRound(working, 0, 4, 8, 12);
+    quarterRound(working, 1, 5, 9, 13);
+    quarterRound(working, 2, 6, 10, 14);
+    quarterRound(working, 3, 7, 11, 15);
+    quarterRound(working, 0, 5, 10, 15);
+    quarterRound(working, 1, 6, 11, 12);
+    quarterRound(working, 2, 7, 8, 13);
+    quarterRound(working, 3, 4, 9, 14);
+  }
+
+  const block = new Uint8Array(64);
+  const blockView = new DataView(block.buffer);
+  for (let i = 0; i < 16; i++) {
+    blockView.setUint32(4 * i, (working[i] + state[i]) >>> 0, true);
+  }
+  return block;
+}
+
+/**
+ * ChaCha20 encryption, RFC 8439 section 2.4.
+ */
+export function chacha20(
+  key: Uint8Array,
+  counter: number,
+  nonce: Uint8Array,
+  input: Uint8Array,
+): Uint8Array {
+  const output = new Uint8Array(input.length);
+  for (let offset = 0; offset < input.length; offset += 64, counter++) {
+    if (counter > 0xffffffff) {
+      throw new Error("ChaCha20 block counter exhausted");
+    }
+    const keystream = chacha20Block(key, counter, nonce);
+    const end = Math.min(64, input.length - offset);
+    for (let i = 0; i < end; i++) {
+      output[offset + i] = input[offset + i] ^ keystream[i];
+    }
+  }
+  return output;
+}
+
+const P1305 = (BigInt(1) << BigInt(130)) - BigInt(5);
+
+const littleEndianToBigInt = (bytes: Uint8Array): bigint =>
+  bytes.reduceRight((n, byte) => (n << BigInt(8)) | BigInt(byte), BigInt(0));
+
+/**
+ * Poly1305 one-time authenticator, RFC 8439 section 2.5.
+ */
+export function poly1305(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const r =
+    littleEndianToBigInt(key.subarray(0, 16)) &
+    BigInt("0x0ffffffc0ffffffc0ffffffc0fffffff");
+  const s = littleEndianToBigInt(key.subarray(16, 32));
+  let accumulator = BigInt(0);
+  for (let offset = 0; offset < message.length; offset += 16) {
+    const block = message.subarray(offset, offset + 16);
+    const n =
+      littleEndianToBigInt(block) | (BigInt(1) << BigInt(8 * block.length));
+    accumulator = ((accumulator + n) * r) % P1305;
+  }
+  accumulator += s;
+
+  const tag = new Uint8Array(TAG_BYTES);
+  for (let i = 0; i < TAG_BYTES; i++) {
+    tag[i] = Number(accumulator & BigInt(0xff));
+    accumulator >>= BigInt(8);
+  }
+  return tag;
+}
+
+const pad16 = (length: number) => new Uint8Array((16 - (length % 16)) % 16);
+
+/**
+ * Poly1305 input: aad | pad | ciphertext | pad | le64(aad) | le64(ciphertext)
+ */
+function macData(aad: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const parts = [aad, pad16(aad.length), ciphertext, pad16(ciphertext.length)];
+  const lengths = new Uint8Array(16);
+  const view = new DataView(lengths.buffer);
+  view.setBigUint64(0, BigInt(aad.length), true);
+  view.setBigUint64(8, BigInt(ciphertext.length), true);
+  parts.push(lengths);
+
+  const data = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  parts.reduce((offset, part) => {
+    data.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return data;
+}
+
+function checkKeyAndNonce(key: Uint8Array, nonce: Uint8Array) {
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Invalid ChaCha20 key length: ${key.length}`);
+  }
+  if (nonce.length !== NONCE_BYTES) {
+    throw new Error(`Invalid ChaCha20 nonce length: ${nonce.length}`);
+  }
+}
+
+/**
+ * AEAD construction of RFC 8439 section 2.8, the tag is appended to the
+ * ciphertext.
+ */
+export const chacha20Poly1305: AeadCipher = {
+  async encrypt(key, iv, plaintext, additionalData = new ArrayBuffer(0)) {
+    const keyBytes = new Uint8Array(key);
+    const nonce = new Uint8Array(iv);
+    checkKeyAndNonce(keyBytes, nonce);
+    const ciphertext = chacha20(keyBytes, 1, nonce, new Uint8Array(plaintext));
+    const otk = chacha20Block(keyBytes, 0, nonce).subarray(0, 32);
+
+    const sealed = new Uint8Array(ciphertext.length + TAG_BYTES);
+    sealed.set(ciphertext);
+    sealed.set(
+      poly1305(otk, macData(new Uint8Array(additionalData), ciphertext)),
+      ciphertext.length,
+    );
+    return sealed.buffer;
+  },
+
+  async decrypt(key, iv, sealed, additionalData = new ArrayBuffer(0)) {
+    const keyBytes = new Uint8Array(key);
+    const nonce = new Uint8Array(iv);
+    checkKeyAndNonce(keyBytes, nonce);
+    const bytes = new Uint8Array(sealed);
+    if (bytes.length < TAG_BYTES) {
+      throw new Error("Ciphertext too short");
+    }
+    const ciphertext = bytes.subarray(0, bytes.length - TAG_BYTES);
+    const otk = chacha20Block(keyBytes, 0, nonce).subarray(0, 32);
+    const expected = poly1305(
+      otk,
+      macData(new Uint8Array(additionalData), ciphertext),
+    );
+    if (!constantTimeEqual(expected, bytes.subarray(ciphertext.length))) {
+      throw new Error("Authentication tag mismatch");
+    }
+    return chacha20(keyBytes, 1, nonce, ciphertext).buffer as ArrayBuffer;
+  },
+};
@@ -0,0 +1,264 @@
+import { hkdf } from "./key-schedule";
+import { SRPParameters } from "./parameters";
+import { SRPRoutines, SRPRoutinesOptions } from "./routines";
+import {
+  arrayBufferToBigInt,
+  bigIntToArrayBuffer,
+  hmac,
+  stringToArrayBuffer,
+} from "./utils";
+
+/**
+ * USER_SRP_AUTH of Amazon Cognito user pools, as implemented by
+ * AuthenticationHelper of amazon-cognito-identity-js: the 3072 bits group
+ * with generator 2, SHA-256, x = H(s | H(poolName I ":" P)) and a password
+ * claim signed with a key derived from "S" by HKDF.
+ */
+
+export const COGNITO_PARAMETERS = new SRPParameters(
+  {
+    N: SRPParameters.getPrimeGroup("rfc5054-3072").N,
+    g: BigInt(2),
+  },
+  SRPParameters.H.SHA256,
+);
+
+/**
+ * ChallengeParameters of the PASSWORD_VERIFIER challenge.
+ */
+export interface CognitoChallengeParameters {
+  SALT: string;
+  SRP_B: string;
+  SECRET_BLOCK: string;
+  USER_ID_FOR_SRP: string;
+}
+
+/**
+ * ChallengeResponses answering the PASSWORD_VERIFIER challenge.
+ */
+export interface CognitoChallengeResponses {
+  USERNAME: string;
+  PASSWORD_CLAIM_SECRET_BLOCK: string;
+  PASSWORD_CLAIM_SIGNATURE: string;
+  TIMESTAMP: string;
+}
+
+const WEEK_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/**
+ * Timestamp of the password claim, like "Tue Jan 2 03:04:05 UTC 2024".
+ */
+export function formatCognitoTimestamp(date: Date): string {
+  const time = [date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+    .map((n) => n.toString().padStart(2, "0"))
+    .join(":");
+  return `${WEEK_DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()} ${time} UTC ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Bytes of a positive number as a signed big-endian integer, with a leading
+ * zero byte if the high bit is set (padHex of amazon-cognito-identity-js).
+ */
+const signedBytes = (n: bigint): ArrayBuffer => {
+  const bytes = new Uint8Array(bigIntToArrayBuffer(n));
+  if (bytes[0] < 0x80) {
+    return bytes.buffer;
+  }
+  const padded = new Uint8Array(bytes.length + 1);
+  padded.set(bytes, 1);
+  return padded.buffer;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes));
+
+const base64ToBytes = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const HEX = /^[0-9a-f]+$/i;
+
+const challengeNumber = (
+  challenge: CognitoChallengeParameters,
+  name: "SALT" | "SRP_B",
+): bigint => {
+  const value = challenge[name];
+  if (typeof value !== "string" || !HEX.test(value)) {
+    throw new Error(`Invalid Cognito challenge parameter ${name}`);
+  }
+  return BigInt(`0x${value}`);
+};
+
+export class CognitoRoutines extends SRPRoutines {
+  /**
+   * Part of the user pool id after the region
+   */
+  public readonly poolName: string;
+
+  /**
+   * @param userPoolId - Like "eu-west-1_AbCdEf123"
+   */
+  constructor(
+    userPoolId: string,
+    parameters: SRPParameters = COGNITO_PARAMETERS,
+    options?: SRPRoutinesOptions,
+  ) {
+    super(parameters, { padding: { k: false, u: false }, ...options });
+    const [region, poolName] = userPoolId.split("_");
+    if (!region || !poolName) {
+      throw new Error(`Invalid Cognito user pool id: ${userPoolId}`);
+    }
+    this.poolName = poolName;
+  }
+
+  public async computeK(): Promise<bigint> {
+    return arrayBufferToBigInt(
+      await this.hash(
+        signedBytes(this.parameters.primeGroup.N),
+        signedBytes(this.parameters.primeGroup.g),
+      ),
+    );
+  }
+
+  public async computeU(A: bigint, B: bigint): Promise<bigint> {
+    return arrayBufferToBigInt(await this.hash(signedBytes(A), signedBytes(B)));
+  }
+
+  public computeIdentityHash(I: string, P: string): Promise<ArrayBuffer> {
+    return this.hash(stringToArrayBuffer(`${this.poolName}${I}:${P}`));
+  }
+
+  public saltToArrayBuffer(s: bigint): ArrayBuffer {
+    return signedBytes(s);
+  }
+
+  /**
+   * 16 bytes key signing the password claim, HKDF of "S" salted with "u".
+   */
+  public computeAuthenticationKey(S: bigint, u: bigint): Promise<ArrayBuffer> {
+    return hkdf(
+      this.parameters,
+      signedBytes(S),
+      signedBytes(u),
+      stringToArrayBuffer("Caldera Derived Key"),
+      16,
+    );
+  }
+
+  /**
+   * PASSWORD_CLAIM_SIGNATURE, base64 encoded.
+   * @param secretBlock - SECRET_BLOCK of the challenge, base64 encoded
+   * @param timestamp - See formatCognitoTimestamp
+   */
+  public async computePasswordClaimSignature(
+    key: ArrayBuffer,
+    userIdForSRP: string,
+    secretBlock: string,
+    timestamp: string,
+  ): Promise<string> {
+    const signature = await hmac(
+      this.parameters,
+      key,
+      stringToArrayBuffer(this.poolName),
+      stringToArrayBuffer(userIdForSRP),
+      base64ToBytes(secretBlock).buffer as ArrayBuffer,
+      stringToArrayBuffer(timestamp),
+    );
+    return bytesToBase64(new Uint8Array(signature));
+  }
+}
+
+/**
+ * Client side of USER_SRP_AUTH. Cognito receives "A" with InitiateAuth,
+ * before sending "B" and the salt, so the private value is generated in
+ * step1, and the user identity and password are only needed in step2.
+ */
+export class CognitoClientSession {
+  constructor(private readonly routines: CognitoRoutines) {}
+
+  public async step1(): Promise<CognitoClientSessionStep1> {
+    const a = await this.routines.generatePrivateValue();
+    this.routines.policy.checkPrivateValue(a);
+    return new CognitoClientSessionStep1(
+      this.routines,
+      a,
+      this.routines.computeClientPublicValue(a),
+    );
+  }
+}
+
+export class CognitoClientSessionStep1 {
+  constructor(
+    private readonly routines: CognitoRoutines,
+    /**
+     * Client private value "a"
+     */
+    private readonly a: bigint,
+    /**
+     * Client public value "A"
+     */
+    public readonly A: bigint,
+  ) {}
+
+  /**
+   * SRP_A parameter of InitiateAuth
+   */
+  public get SRP_A(): string {
+    return this.A.toString(16);
+  }
+
+  /**
+   * Answer the PASSWORD_VERIFIER challenge with RespondToAuthChallenge.
+   * @param date - Time of the password claim, now by default
+   */
+  public async step2(
+    password: string,
+    challenge: CognitoChallengeParameters,
+    date: Date = new Date(),
+  ): Promise<CognitoChallengeResponses> {
+    const I = challenge.USER_ID_FOR_SRP;
+    const s = challengeNumber(challenge, "SALT");
+    const B = challengeNumber(challenge, "SRP_B");
+    this.routines.checkPublicValue(B, "B");
+    if (!I || !I.trim()) {
+      throw new Error("User identity must not be null nor empty");
+    }
+    if (!password) {
+      throw new Error("User password must not be null");
+    }
+    const IH = await this.routines.computeIdentityHash(I, password);
+    const x = await this.routines.computeXStep2(s, IH);
+    const k = await this.routines.computeK();
+    this.routines.checkServerBase(B, k, x);
+    const u = await this.routines.computeU(this.A, B);
+    this.routines.checkScramblingParameter(u);
+    const S = this.routines.computeClientSessionKey(k, x, u, this.a, B);
+    const key = await this.routines.computeAuthenticationKey(S, u);
+    const TIMESTAMP = formatCognitoTimestamp(date);
+    return {
+      USERNAME: I,
+      PASSWORD_CLAIM_SECRET_BLOCK: challenge.SECRET_BLOCK,
+      PASSWORD_CLAIM_SIGNATURE:
+        await this.routines.computePasswordClaimSignature(
+          key,
+          I,
+          challenge.SECRET_BLOCK,
+          TIMESTAMP,
+        ),
+      TIMESTAMP,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Comparisons of secrets (evidence messages, authentication tags) whose
+ * running time doesn't depend on where the inputs differ, only on their
+ * lengths, which are public.
+ */
+
+/**
+ * Compare all bytes of a and b, without an early exit.
+ */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Big-endian bytes of a non negative number, always length bytes long.
+ * @returns undefined if the number doesn't fit
+ */
+const fixedLengthBytes = (
+  n: bigint,
+  length: number,
+): Uint8Array | undefined => {
+  const bytes = new Uint8Array(length);
+  const mask = BigInt(0xff);
+  const eight = BigInt(8);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(n & mask);
+    n >>= eight;
+  }
+  return n === BigInt(0) ? bytes : undefined;
+};
+
+/**
+ * Compare two numbers, like evidence messages, as byte encodings of a fixed
+ * length. Numbers that are negative or don't fit in length bytes are not
+ * equal to anything.
+ * @param length - Byte length of the encodings, the hash output length for
+ *                 evidence messages
+ */
+export function constantTimeEqualBigInt(
+  a: bigint,
+  b: bigint,
+  length: number,
+): boolean {
+  const aBytes = fixedLengthBytes(a, length);
+  const bBytes = fixedLengthBytes(b, length);
+  if (!aBytes || !bBytes) {
+    return false;
+  }
+  return constantTimeEqual(aBytes, bBytes);
+}
@@ -1,12 +1,57 @@
-import type { md } from 'node-forge';
+import type { md } from "node-forge";
 // import util from 'node-forge/lib/util';
-import type { HashFunction } from './parameters';
+import type { HashFunction } from "./parameters";
+import { aesGcm as softAesGcm } from "./aes-gcm";
+import { blake2b } from "./blake2b";
+import { chacha20Poly1305 } from "./chacha20-poly1305";
+import { sha3 } from "./sha3";
+
+/**
+ * Authenticated encryption with associated data. The ciphertext returned by
+ * `encrypt` carries the authentication tag at its end.
+ */
+export interface AeadCipher {
+  encrypt(
+    key: ArrayBuffer,
+    iv: ArrayBuffer,
+    plaintext: ArrayBuffer,
+    additionalData?: ArrayBuffer,
+  ): Promise<ArrayBuffer>;
+  decrypt(
+    key: ArrayBuffer,
+    iv: ArrayBuffer,
+    ciphertext: ArrayBuffer,
+    additionalData?: ArrayBuffer,
+  ): Promise<ArrayBuffer>;
+}
 
 interface CompatibleCrypto {
   hashFunctions: { [key: string]: HashFunction };
   randomBytes: (array: Uint8Array) => Uint8Array;
+  /**
+   * AES-GCM, native with Web Crypto Subtle and a TypeScript implementation
+   * otherwise.
+   */
+  aesGcm: AeadCipher;
+  /**
+   * ChaCha20-Poly1305, always the TypeScript implementation.
+   */
+  chacha20Poly1305: AeadCipher;
+  /**
+   * Web Crypto Subtle, if available.
+   */
+  subtle?: SubtleCrypto;
 }
 
+// hash functions neither Web Crypto nor node-forge provide
+const softHashFunctions: { [key: string]: HashFunction } = {
+  SHA3_256: async (data) =>
+    sha3(new Uint8Array(data), 32).buffer as ArrayBuffer,
+  SHA3_512: async (data) =>
+    sha3(new Uint8Array(data), 64).buffer as ArrayBuffer,
+  BLAKE2b: async (data) => blake2b(new Uint8Array(data)).buffer as ArrayBuffer,
+};
+
 export let crossEnvCrypto: CompatibleCrypto;
 
 async function getCrypto(): Promise<Crypto> {
@@ -24,16 +69,19 @@ export async function getCompatibleCrypto(): Promise<CompatibleCrypto> {
 
     if (!webcrypto.subtle) {
       console.log(
-        "Using node-forge for hashing since Web Crypto Subtle is not available.",
+        "Using node-forge for hashing and TypeScript AES-GCM since Web Crypto Subtle is not available.",
       );
       // const { util, md } = await import('node-forge');
-      const md = await import('node-forge/lib/md.all');
-      const util = await import('node-forge/lib/util');
-      const digestFunctionToHashFunction = (create: () => md.MessageDigest) => async (data: ArrayBuffer): Promise<ArrayBuffer> => {
-        const messageDigest = create();
-        messageDigest.update(util.binary.raw.encode(new Uint8Array(data)));
-        return util.binary.raw.decode(messageDigest.digest().getBytes()).buffer as ArrayBuffer;
-      };
+      const md = await import("node-forge/lib/md.all");
+      const util = await import("node-forge/lib/util");
+      const digestFunctionToHashFunction =
+        (create: () => md.MessageDigest) =>
+        async (data: ArrayBuffer): Promise<ArrayBuffer> => {
+          const messageDigest = create();
+          messageDigest.update(util.binary.raw.encode(new Uint8Array(data)));
+          return util.binary.raw.decode(messageDigest.digest().getBytes())
+            .buffer as ArrayBuffer;
+        };
 
       crossEnvCrypto = {
         randomBytes: webcrypto.getRandomValues.bind(webcrypto),
@@ -42,22 +90,49 @@ export async function getCompatibleCrypto(): Promise<CompatibleCrypto> {
           SHA256: digestFunctionToHashFunction(md.sha256.create),
           SHA384: digestFunctionToHashFunction(md.sha384.create),
           SHA512: digestFunctionToHashFunction(md.sha512.create),
+          ...softHashFunctions,
         },
+        aesGcm: softAesGcm,
+        chacha20Poly1305,
       };
     } else {
       const digestFunctionToHashFunction =
         (algorithm: AlgorithmIdentifier) => (data: ArrayBuffer) =>
           webcrypto.subtle.digest(algorithm, data);
+      // imported on each call: callers may write new key bytes into the
+      // same buffer
+      const importAesGcmKey = (key: ArrayBuffer) =>
+        webcrypto.subtle.importKey("raw", key, "AES-GCM", false, [
+          "encrypt",
+          "decrypt",
+        ]);
       crossEnvCrypto = {
         randomBytes: webcrypto.getRandomValues.bind(webcrypto),
         hashFunctions: {
-          SHA1: digestFunctionToHashFunction('SHA-1'),
-          SHA256: digestFunctionToHashFunction('SHA-256'),
-          SHA384: digestFunctionToHashFunction('SHA-384'),
-          SHA512: digestFunctionToHashFunction('SHA-512'),
+          SHA1: digestFunctionToHashFunction("SHA-1"),
+          SHA256: digestFunctionToHashFunction("SHA-256"),
+          SHA384: digestFunctionToHashFunction("SHA-384"),
+          SHA512: digestFunctionToHashFunction("SHA-512"),
+          ...softHashFunctions,
+        },
+        subtle: webcrypto.subtle,
+        aesGcm: {
+          encrypt: async (key, iv, plaintext, additionalData) =>
+            webcrypto.subtle.encrypt(
+              { name: "AES-GCM", iv, additionalData },
+              await importAesGcmKey(key),
+              plaintext,
+            ),
+          decrypt: async (key, iv, ciphertext, additionalData) =>
+            webcrypto.subtle.decrypt(
+              { name: "AES-GCM", iv, additionalData },
+              await importAesGcmKey(key),
+              ciphertext,
+            ),
         },
+        chacha20Poly1305,
       };
     }
   }
   return crossEnvCrypto;
-}
\ No newline at end of file
+}
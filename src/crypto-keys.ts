@@ -0,0 +1,108 @@
+import { getCompatibleCrypto } from "./cross-env-crypto";
+import {
+  deriveInternalKey,
+  deriveSessionKeys,
+  HandshakeTranscript,
+  KeyScheduleOptions,
+} from "./key-schedule";
+import { SRPParameters } from "./parameters";
+import type { SRPRoutines } from "./routines";
+
+/**
+ * Session keys imported into Web Crypto, none of them can be exported.
+ */
+export interface SessionCryptoKeys {
+  /**
+   * AES-256-GCM key of client to server messages
+   */
+  clientToServer: CryptoKey;
+  /**
+   * AES-256-GCM key of server to client messages
+   */
+  serverToClient: CryptoKey;
+  /**
+   * HMAC key shared by both sides, using the session hash function if Web
+   * Crypto supports it (SHA-1 and SHA-2) and SHA-256 otherwise
+   */
+  hmac: CryptoKey;
+}
+
+export interface SessionOptions {
+  /**
+   * Keep the session secret "S" out of the public surface: reading
+   * `SRPClientSessionStep2.S`, `SRPServerSessionStep2.S` or `K`, or calling
+   * `sessionKeys` of the step2 sessions or
+   * `SRPServerSessionStep1.unsafeUnverifiedSessionKey` throws, and the step2
+   * sessions can't be serialized with toJSON.
+   */
+  concealSecret?: boolean;
+}
+
+export const CONCEALED_SECRET_MESSAGE =
+  "Session secret is concealed (concealSecret option)";
+
+const HMAC_LABEL = "tssrp6a hmac";
+
+const WEB_CRYPTO_HASHES: { [name: string]: [string, number] } = {
+  SHA1: ["SHA-1", 20],
+  SHA256: ["SHA-256", 32],
+  SHA384: ["SHA-384", 48],
+  SHA512: ["SHA-512", 64],
+};
+
+const hmacHash = (parameters: SRPParameters): [string, number] => {
+  const name = Object.keys(WEB_CRYPTO_HASHES).find(
+    (key) => SRPParameters.H[key] === parameters.H,
+  );
+  return WEB_CRYPTO_HASHES[name ?? "SHA256"];
+};
+
+/**
+ * Derive the session keys and import them as non-extractable CryptoKeys, the
+ * raw key bytes are overwritten after the import.
+ * @param routines - Routines of the session, their hash function is used
+ * @param S - Shared session secret
+ * @param transcript - Public values of the handshake
+ * @param options - Labels and application context, see KeyScheduleOptions
+ */
+export async function deriveSessionCryptoKeys(
+  routines: SRPRoutines,
+  S: bigint,
+  transcript: HandshakeTranscript,
+  options: KeyScheduleOptions = {},
+): Promise<SessionCryptoKeys> {
+  const { subtle } = await getCompatibleCrypto();
+  if (!subtle) {
+    throw new Error("CryptoKeys require Web Crypto Subtle");
+  }
+  const [hash, hashBytes] = hmacHash(routines.parameters);
+  const keys = await deriveSessionKeys(routines, S, transcript, options);
+  const hmacKey = await deriveInternalKey(
+    routines,
+    S,
+    transcript,
+    HMAC_LABEL,
+    options.context ?? "",
+    hashBytes,
+  );
+
+  const importAesGcm = (key: ArrayBuffer) =>
+    subtle.importKey("raw", key, "AES-GCM", false, ["encrypt", "decrypt"]);
+  try {
+    return {
+      clientToServer: await importAesGcm(keys.clientToServer),
+      serverToClient: await importAesGcm(keys.serverToClient),
+      hmac: await subtle.importKey(
+        "raw",
+        hmacKey,
+        { name: "HMAC", hash },
+        false,
+        ["sign", "verify"],
+      ),
+    };
+  } finally {
+    for (const key of [keys.clientToServer, keys.serverToClient, hmacKey]) {
+      new Uint8Array(key).fill(0);
+    }
+  }
+}
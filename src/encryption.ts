@@ -1,175 +1,276 @@
 import { bigIntToArrayBuffer, hash } from "./utils";
+import { constantTimeEqual } from "./constant-time";
+import { getCompatibleCrypto } from "./cross-env-crypto";
+import {
+  ALGORITHMS,
+  checkEnvelope,
+  EncryptedEnvelope,
+  EncryptionAlgorithm,
+  ENCRYPTION_VERSION,
+  envelopeHeader,
+} from "./envelope";
+import { deriveRawKey } from "./key-schedule";
 import { SRPParameters } from "./parameters";
 
+const AES_GCM_KEY_BYTES = 32;
+
 /**
- * Derive encryption and MAC keys from shared session secret S
- * Returns { encKey: 32 bytes, macKey: 32 bytes }
+ * IV size used by the XOR stream cipher of earlier releases.
  */
-async function deriveKeys(
-  S: bigint,
-): Promise<{ encKey: ArrayBuffer; macKey: ArrayBuffer }> {
-  const params = new SRPParameters();
-  const sBytes = bigIntToArrayBuffer(S);
+const LEGACY_IV_BYTES = 16;
+const LEGACY_TAG_BYTES = 16;
 
-  // Derive encryption key: H(S || "encryption")
-  const encKey = await hash(
-    params,
-    sBytes,
-    new TextEncoder().encode("encryption").buffer,
-  );
-
-  // Derive MAC key: H(S || "authentication")
-  const macKey = await hash(
-    params,
-    sBytes,
-    new TextEncoder().encode("authentication").buffer,
-  );
+/**
+ * Either a 32 byte AES key (see deriveSessionKeys) or the shared session
+ * secret S, from which a single key is derived with HKDF-SHA-512.
+ */
+export type EncryptionKey = ArrayBuffer | bigint;
 
-  return { encKey, macKey };
+export interface DecryptOptions {
+  /**
+   * Accept ciphertexts produced by the XOR stream cipher of earlier releases.
+   * That scheme is insecure and must only be enabled to migrate stored data.
+   */
+  allowLegacy?: boolean;
 }
 
 /**
- * Generate random IV (16 bytes for compatibility)
+ * Context sent in the clear but authenticated with the ciphertext, like an
+ * HTTP method and path, a message type or a user id.
  */
-function generateIV(): ArrayBuffer {
-  const iv = new Uint8Array(16);
-  for (let i = 0; i < 16; i++) {
-    iv[i] = Math.floor(Math.random() * 256);
-  }
-  return iv.buffer;
-}
+export type AssociatedData = string | ArrayBuffer;
+
+const encodeLabel = (label: string): ArrayBuffer =>
+  new TextEncoder().encode(label).buffer as ArrayBuffer;
+
+export const toAdditionalData = (
+  associatedData?: AssociatedData,
+): ArrayBuffer | undefined =>
+  typeof associatedData === "string"
+    ? encodeLabel(associatedData)
+    : associatedData;
 
 /**
- * XOR encryption/decryption (stream cipher from key material)
+ * The envelope header followed by the associated data, so that a changed
+ * version, algorithm or key id fails the tag
  */
-function xorCrypt(data: Uint8Array, key: Uint8Array, iv: Uint8Array): Uint8Array {
-  const result = new Uint8Array(data.length);
-  const keyStream = new Uint8Array(data.length);
+const envelopeAdditionalData = (
+  envelope: Pick<EncryptedEnvelope, "version" | "algorithm" | "keyId">,
+  associatedData?: AssociatedData,
+): ArrayBuffer => {
+  const header = envelopeHeader(envelope);
+  const additionalData = new Uint8Array(
+    toAdditionalData(associatedData) || new ArrayBuffer(0),
+  );
+  const bytes = new Uint8Array(header.length + additionalData.length);
+  bytes.set(header);
+  bytes.set(additionalData, header.length);
+  return bytes.buffer;
+};
 
-  // Generate keystream by repeating (key XOR iv) pattern
-  for (let i = 0; i < data.length; i++) {
-    keyStream[i] = key[i % key.length] ^ iv[i % iv.length];
+export async function toAesKey(key: EncryptionKey): Promise<ArrayBuffer> {
+  if (typeof key === "bigint") {
+    return deriveRawKey(key);
   }
-
-  // XOR data with keystream
-  for (let i = 0; i < data.length; i++) {
-    result[i] = data[i] ^ keyStream[i];
+  if (key.byteLength !== AES_GCM_KEY_BYTES) {
+    throw new Error(`Invalid key length: ${key.byteLength}`);
   }
+  return key;
+}
 
-  return result;
+/**
+ * Ciphertexts of the XOR stream cipher are recognized by their 16 byte IV,
+ * they predate envelopes.
+ */
+export const isLegacyCiphertext = (
+  ivOrEnvelope: ArrayBuffer | EncryptedEnvelope,
+): boolean =>
+  ivOrEnvelope instanceof ArrayBuffer &&
+  ivOrEnvelope.byteLength === LEGACY_IV_BYTES;
+
+export interface EncryptOptions {
+  /**
+   * Cipher to use, AES-256-GCM ("A256GCM") if not set
+   */
+  algorithm?: EncryptionAlgorithm;
+  /**
+   * Stored in the envelope to tell the receiver which key to use
+   */
+  keyId?: string;
 }
 
 /**
- * Compute HMAC-like authentication tag using available hash
+ * Arguments of decrypt: an envelope, or the IV and ciphertext of an
+ * AES-256-GCM envelope or of a legacy ciphertext.
  */
-async function computeMAC(
-  macKey: ArrayBuffer,
-  iv: ArrayBuffer,
-  ciphertext: ArrayBuffer,
-): Promise<ArrayBuffer> {
-  const params = new SRPParameters();
-  return hash(params, macKey, iv, ciphertext);
+export type DecryptArgs =
+  | [
+      envelope: EncryptedEnvelope,
+      associatedData?: AssociatedData,
+      options?: DecryptOptions,
+    ]
+  | [
+      iv: ArrayBuffer,
+      ciphertext: ArrayBuffer,
+      associatedData?: AssociatedData,
+      options?: DecryptOptions,
+    ];
+
+export async function getAesGcm() {
+  return (await getCompatibleCrypto()).aesGcm;
+}
+
+async function getCipher(algorithm: EncryptionAlgorithm) {
+  const crypto = await getCompatibleCrypto();
+  return algorithm === "C20P" ? crypto.chacha20Poly1305 : crypto.aesGcm;
 }
 
 /**
- * Encrypt data using stream cipher with authentication
- * @param sessionKey - Shared session secret S (bigint)
+ * Encrypt data with AES-256-GCM or ChaCha20-Poly1305
+ * @param sessionKey - See EncryptionKey
  * @param data - Data to encrypt (string or ArrayBuffer)
- * @returns Object with iv and ciphertext (encrypted data + auth tag)
+ * @param associatedData - Context that decrypt must be given back verbatim
+ * @param options - See EncryptOptions
+ * @returns Envelope with the IV and ciphertext (encrypted data + auth tag),
+ *          see serializeEnvelope to put it on the wire
  */
 export async function encrypt(
-  sessionKey: bigint,
+  sessionKey: EncryptionKey,
   data: string | ArrayBuffer,
-): Promise<{ iv: ArrayBuffer; ciphertext: ArrayBuffer }> {
-  const { encKey, macKey } = await deriveKeys(sessionKey);
-  const iv = generateIV();
+  associatedData?: AssociatedData,
+  options: EncryptOptions = {},
+): Promise<EncryptedEnvelope> {
+  const { algorithm = "A256GCM" } = options;
+  const header = {
+    version: ENCRYPTION_VERSION,
+    algorithm,
+    ...(options.keyId === undefined ? {} : { keyId: options.keyId }),
+  };
+  const crypto = await getCompatibleCrypto();
+  const cipher = await getCipher(algorithm);
+  const key = await toAesKey(sessionKey);
+  const iv = crypto.randomBytes(new Uint8Array(ALGORITHMS[algorithm].ivBytes))
+    .buffer as ArrayBuffer;
 
-  // Convert data to bytes
   const plaintext =
-    typeof data === "string"
-      ? new TextEncoder().encode(data)
-      : new Uint8Array(data);
-
-  // Encrypt with XOR
-  const encrypted = xorCrypt(
+    typeof data === "string" ? encodeLabel(data) : data.slice(0);
+  const ciphertext = await cipher.encrypt(
+    key,
+    iv,
     plaintext,
-    new Uint8Array(encKey),
-    new Uint8Array(iv),
+    envelopeAdditionalData(header, associatedData),
   );
 
-  // Compute MAC over IV + ciphertext
-  const encryptedBuffer = encrypted.buffer as ArrayBuffer;
-  const mac = await computeMAC(macKey, iv, encryptedBuffer);
-
-  // Combine ciphertext + MAC (first 16 bytes of hash as tag)
-  const tag = new Uint8Array(mac).slice(0, 16);
-  const combined = new Uint8Array(encrypted.length + tag.length);
-  combined.set(encrypted, 0);
-  combined.set(tag, encrypted.length);
-
-  return {
-    iv,
-    ciphertext: combined.buffer,
-  };
+  return checkEnvelope({ ...header, iv, ciphertext });
 }
 
 /**
- * Decrypt data using stream cipher with authentication
- * @param sessionKey - Shared session secret S (bigint)
- * @param iv - Initialization vector
- * @param ciphertext - Encrypted data with auth tag (ciphertext + 16 byte tag)
+ * Decrypt data produced by `encrypt`, given either the envelope or its IV and
+ * ciphertext
+ * @param sessionKey - See EncryptionKey, legacy ciphertexts need S
+ * @param args - See DecryptArgs, associatedData is the context given to
+ *               encrypt (the tag fails otherwise), options see DecryptOptions
  * @returns Decrypted data as ArrayBuffer
  */
 export async function decrypt(
-  sessionKey: bigint,
-  iv: ArrayBuffer,
-  ciphertext: ArrayBuffer,
+  sessionKey: EncryptionKey,
+  ...args: DecryptArgs
 ): Promise<ArrayBuffer> {
-  const { encKey, macKey } = await deriveKeys(sessionKey);
-
-  // Split ciphertext and tag (last 16 bytes)
-  const ctBuffer = new Uint8Array(ciphertext);
-  if (ctBuffer.length < 16) {
-    throw new Error("Ciphertext too short (must include 16-byte auth tag)");
-  }
-
-  const actualCiphertext = ctBuffer.slice(0, ctBuffer.length - 16);
-  const receivedTag = ctBuffer.slice(ctBuffer.length - 16);
-
-  // Verify MAC
-  const computedMAC = await computeMAC(macKey, iv, actualCiphertext.buffer);
-  const computedTag = new Uint8Array(computedMAC).slice(0, 16);
-
-  // Constant-time comparison
-  let tagMatch = true;
-  for (let i = 0; i < 16; i++) {
-    if (receivedTag[i] !== computedTag[i]) {
-      tagMatch = false;
+  let envelope: EncryptedEnvelope;
+  let associatedData: AssociatedData | undefined;
+  if (args[0] instanceof ArrayBuffer) {
+    const [iv, ciphertext, aad, options = {}] = args as Extract<
+      DecryptArgs,
+      [ArrayBuffer, ...unknown[]]
+    >;
+    if (isLegacyCiphertext(iv)) {
+      if (!options.allowLegacy) {
+        throw new Error(
+          "Legacy ciphertext rejected (decrypt with allowLegacy to migrate it)",
+        );
+      }
+      if (typeof sessionKey !== "bigint") {
+        throw new Error("Legacy ciphertext can only be decrypted with S");
+      }
+      if (aad !== undefined) {
+        throw new Error("Legacy ciphertext can't authenticate associated data");
+      }
+      return legacyDecrypt(sessionKey, iv, ciphertext);
     }
+    envelope = {
+      version: ENCRYPTION_VERSION,
+      algorithm: "A256GCM",
+      iv,
+      ciphertext,
+    };
+    associatedData = aad;
+  } else {
+    [envelope, associatedData] = args as Extract<
+      DecryptArgs,
+      [EncryptedEnvelope, ...unknown[]]
+    >;
   }
+  checkEnvelope(envelope);
 
-  if (!tagMatch) {
+  const cipher = await getCipher(envelope.algorithm);
+  const key = await toAesKey(sessionKey);
+  try {
+    return await cipher.decrypt(
+      key,
+      envelope.iv,
+      envelope.ciphertext,
+      envelopeAdditionalData(envelope, associatedData),
+    );
+  } catch {
     throw new Error("Decryption failed (authentication tag mismatch)");
   }
-
-  // Decrypt with XOR
-  const decrypted = xorCrypt(
-    actualCiphertext,
-    new Uint8Array(encKey),
-    new Uint8Array(iv),
-  );
-
-  return decrypted.buffer as ArrayBuffer;
 }
 
 /**
  * Decrypt and return as UTF-8 string
  */
 export async function decryptToString(
-  sessionKey: bigint,
+  sessionKey: EncryptionKey,
+  ...args: DecryptArgs
+): Promise<string> {
+  return new TextDecoder().decode(await decrypt(sessionKey, ...args));
+}
+
+/**
+ * Decrypt a ciphertext of the XOR stream cipher used by earlier releases:
+ * keystream is `encKey XOR iv` repeated, the tag is the first 16 bytes of
+ * H(macKey || iv || ciphertext), both keys are derived with SHA-512.
+ */
+async function legacyDecrypt(
+  S: bigint,
   iv: ArrayBuffer,
   ciphertext: ArrayBuffer,
-): Promise<string> {
-  const decrypted = await decrypt(sessionKey, iv, ciphertext);
-  return new TextDecoder().decode(decrypted);
+): Promise<ArrayBuffer> {
+  const params = new SRPParameters();
+  const sBytes = bigIntToArrayBuffer(S);
+  const encKey = new Uint8Array(
+    await hash(params, sBytes, encodeLabel("encryption")),
+  );
+  const macKey = await hash(params, sBytes, encodeLabel("authentication"));
+
+  const ctBuffer = new Uint8Array(ciphertext);
+  if (ctBuffer.length < LEGACY_TAG_BYTES) {
+    throw new Error("Ciphertext too short (must include 16-byte auth tag)");
+  }
+  const actualCiphertext = ctBuffer.slice(0, -LEGACY_TAG_BYTES);
+  const receivedTag = ctBuffer.slice(-LEGACY_TAG_BYTES);
+
+  const computedTag = new Uint8Array(
+    await hash(params, macKey, iv, actualCiphertext.buffer),
+  );
+  if (
+    !constantTimeEqual(receivedTag, computedTag.subarray(0, LEGACY_TAG_BYTES))
+  ) {
+    throw new Error("Decryption failed (authentication tag mismatch)");
+  }
+
+  const ivBytes = new Uint8Array(iv);
+  return actualCiphertext.map(
+    (byte, i) => byte ^ encKey[i % encKey.length] ^ ivBytes[i % ivBytes.length],
+  ).buffer;
 }
@@ -0,0 +1,281 @@
+import { EnvelopeFormatError } from "./errors";
+
+/**
+ * Version of the envelope format produced by `encrypt`.
+ */
+export const ENCRYPTION_VERSION = 1;
+
+/**
+ * Identifiers of the supported ciphers, named as in JSON Web Algorithms:
+ * AES-256-GCM and ChaCha20-Poly1305.
+ */
+export type EncryptionAlgorithm = "A256GCM" | "C20P";
+
+interface AlgorithmInfo {
+  /**
+   * Identifier in the binary format
+   */
+  id: number;
+  ivBytes: number;
+  tagBytes: number;
+}
+
+export const ALGORITHMS: Record<EncryptionAlgorithm, AlgorithmInfo> = {
+  A256GCM: { id: 1, ivBytes: 12, tagBytes: 16 },
+  C20P: { id: 2, ivBytes: 12, tagBytes: 16 },
+};
+
+/**
+ * Output of `encrypt`, everything needed to decrypt except the key.
+ */
+export interface EncryptedEnvelope {
+  version: number;
+  algorithm: EncryptionAlgorithm;
+  iv: ArrayBuffer;
+  /**
+   * Hint for choosing the decryption key, authenticated with the ciphertext
+   */
+  keyId?: string;
+  /**
+   * Encrypted data followed by the auth tag
+   */
+  ciphertext: ArrayBuffer;
+}
+
+/**
+ * JSON representation of an envelope, binary fields are base64url encoded.
+ */
+export interface EnvelopeJSON {
+  v: number;
+  alg: string;
+  kid?: string;
+  iv: string;
+  ct: string;
+}
+
+export type EnvelopeFormat = "bytes" | "base64url" | "json";
+
+const MAX_KEY_ID_BYTES = 255;
+
+const BASE64URL = /^[A-Za-z0-9_-]*$/;
+
+export const bytesToBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  // spreading large arrays into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+/**
+ * Decode unpadded base64url, rejecting any other alphabet, padding or
+ * non-canonical trailing bits.
+ */
+export const base64UrlToBytes = (text: string): Uint8Array => {
+  if (!BASE64URL.test(text) || text.length % 4 === 1) {
+    throw new EnvelopeFormatError("Invalid base64url");
+  }
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  if (bytesToBase64Url(bytes) !== text) {
+    throw new EnvelopeFormatError("Invalid base64url");
+  }
+  return bytes;
+};
+
+const algorithmById = (id: number): EncryptionAlgorithm => {
+  const algorithm = (Object.keys(ALGORITHMS) as EncryptionAlgorithm[]).find(
+    (name) => ALGORITHMS[name].id === id,
+  );
+  if (!algorithm) {
+    throw new EnvelopeFormatError(`Unsupported algorithm: ${id}`);
+  }
+  return algorithm;
+};
+
+/**
+ * Check that the envelope is one this version of the library can decrypt.
+ * @throws EnvelopeFormatError
+ */
+export function checkEnvelope(envelope: EncryptedEnvelope): EncryptedEnvelope {
+  const { version, algorithm, iv, keyId, ciphertext } = envelope;
+  if (version !== ENCRYPTION_VERSION) {
+    throw new EnvelopeFormatError(`Unsupported envelope version: ${version}`);
+  }
+  if (!Object.prototype.hasOwnProperty.call(ALGORITHMS, algorithm)) {
+    throw new EnvelopeFormatError(`Unsupported algorithm: ${algorithm}`);
+  }
+  const { ivBytes, tagBytes } = ALGORITHMS[algorithm];
+  if (!(iv instanceof ArrayBuffer) || iv.byteLength !== ivBytes) {
+    throw new EnvelopeFormatError("Invalid IV length");
+  }
+  if (
+    !(ciphertext instanceof ArrayBuffer) ||
+    ciphertext.byteLength < tagBytes
+  ) {
+    throw new EnvelopeFormatError("Ciphertext too short");
+  }
+  if (keyId !== undefined) {
+    const length =
+      typeof keyId === "string" ? new TextEncoder().encode(keyId).length : 0;
+    if (length < 1 || length > MAX_KEY_ID_BYTES) {
+      throw new EnvelopeFormatError("Key id must be 1 to 255 bytes");
+    }
+  }
+  return envelope;
+}
+
+/**
+ * Version (1 byte), algorithm id (1 byte), key id length (1 byte, 0 without
+ * key id) and UTF-8 key id, encrypt authenticates them with the ciphertext.
+ */
+export function envelopeHeader(
+  envelope: Pick<EncryptedEnvelope, "version" | "algorithm" | "keyId">,
+): Uint8Array {
+  const keyId = new TextEncoder().encode(envelope.keyId ?? "");
+  const header = new Uint8Array(3 + keyId.length);
+  header[0] = envelope.version;
+  header[1] = ALGORITHMS[envelope.algorithm].id;
+  header[2] = keyId.length;
+  header.set(keyId, 3);
+  return header;
+}
+
+/**
+ * Binary layout: envelopeHeader, IV, ciphertext and tag.
+ */
+function envelopeToBytes(envelope: EncryptedEnvelope): Uint8Array {
+  const header = envelopeHeader(envelope);
+  const iv = new Uint8Array(envelope.iv);
+  const ciphertext = new Uint8Array(envelope.ciphertext);
+  const bytes = new Uint8Array(header.length + iv.length + ciphertext.length);
+  bytes.set(header);
+  bytes.set(iv, header.length);
+  bytes.set(ciphertext, header.length + iv.length);
+  return bytes;
+}
+
+function envelopeFromBytes(bytes: Uint8Array): EncryptedEnvelope {
+  if (bytes.length < 3) {
+    throw new EnvelopeFormatError("Envelope too short");
+  }
+  const version = bytes[0];
+  if (version !== ENCRYPTION_VERSION) {
+    throw new EnvelopeFormatError(`Unsupported envelope version: ${version}`);
+  }
+  const algorithm = algorithmById(bytes[1]);
+  const keyIdEnd = 3 + bytes[2];
+  const ivEnd = keyIdEnd + ALGORITHMS[algorithm].ivBytes;
+  if (bytes.length < ivEnd) {
+    throw new EnvelopeFormatError("Envelope too short");
+  }
+  let keyId: string | undefined;
+  if (keyIdEnd > 3) {
+    try {
+      keyId = new TextDecoder("utf-8", { fatal: true }).decode(
+        bytes.subarray(3, keyIdEnd),
+      );
+    } catch {
+      throw new EnvelopeFormatError("Key id is not valid UTF-8");
+    }
+  }
+  return checkEnvelope({
+    version,
+    algorithm,
+    iv: bytes.slice(keyIdEnd, ivEnd).buffer,
+    ...(keyId === undefined ? {} : { keyId }),
+    ciphertext: bytes.slice(ivEnd).buffer,
+  });
+}
+
+function envelopeFromJSON(json: EnvelopeJSON): EncryptedEnvelope {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new EnvelopeFormatError("Envelope must be an object");
+  }
+  const allowed = ["v", "alg", "kid", "iv", "ct"];
+  const unknown = Object.keys(json).find((key) => !allowed.includes(key));
+  if (unknown !== undefined) {
+    throw new EnvelopeFormatError(`Unknown envelope field: ${unknown}`);
+  }
+  const { v, alg, kid, iv, ct } = json;
+  if (typeof v !== "number" || typeof alg !== "string") {
+    throw new EnvelopeFormatError("Envelope v and alg are required");
+  }
+  if (typeof iv !== "string" || typeof ct !== "string") {
+    throw new EnvelopeFormatError("Envelope iv and ct must be strings");
+  }
+  if (kid !== undefined && typeof kid !== "string") {
+    throw new EnvelopeFormatError("Envelope kid must be a string");
+  }
+  return checkEnvelope({
+    version: v,
+    algorithm: alg as EncryptionAlgorithm,
+    iv: base64UrlToBytes(iv).buffer as ArrayBuffer,
+    ...(kid === undefined ? {} : { keyId: kid }),
+    ciphertext: base64UrlToBytes(ct).buffer as ArrayBuffer,
+  });
+}
+
+/**
+ * Encode an envelope for storage or transport.
+ * @param format - "bytes" for an ArrayBuffer, "base64url" for a URL and header
+ *                 safe string, "json" for an object to embed in JSON documents
+ */
+export function serializeEnvelope(
+  envelope: EncryptedEnvelope,
+  format: "bytes",
+): ArrayBuffer;
+export function serializeEnvelope(
+  envelope: EncryptedEnvelope,
+  format: "base64url",
+): string;
+export function serializeEnvelope(
+  envelope: EncryptedEnvelope,
+  format: "json",
+): EnvelopeJSON;
+export function serializeEnvelope(
+  envelope: EncryptedEnvelope,
+  format: EnvelopeFormat,
+): ArrayBuffer | string | EnvelopeJSON {
+  checkEnvelope(envelope);
+  switch (format) {
+    case "bytes":
+      return envelopeToBytes(envelope).buffer as ArrayBuffer;
+    case "base64url":
+      return bytesToBase64Url(envelopeToBytes(envelope));
+    case "json":
+      return {
+        v: envelope.version,
+        alg: envelope.algorithm,
+        ...(envelope.keyId === undefined ? {} : { kid: envelope.keyId }),
+        iv: bytesToBase64Url(new Uint8Array(envelope.iv)),
+        ct: bytesToBase64Url(new Uint8Array(envelope.ciphertext)),
+      };
+    default:
+      throw new Error(`Unknown envelope format: ${format}`);
+  }
+}
+
+/**
+ * Decode an envelope produced by serializeEnvelope, the format is detected
+ * from the input type: bytes, a base64url string or a JSON object.
+ * @throws EnvelopeFormatError if the input is malformed or unsupported
+ */
+export function parseEnvelope(
+  input: ArrayBuffer | Uint8Array | string | EnvelopeJSON,
+): EncryptedEnvelope {
+  if (input instanceof ArrayBuffer) {
+    return envelopeFromBytes(new Uint8Array(input));
+  }
+  if (input instanceof Uint8Array) {
+    return envelopeFromBytes(input);
+  }
+  if (typeof input === "string") {
+    return envelopeFromBytes(base64UrlToBytes(input));
+  }
+  return envelopeFromJSON(input);
+}
@@ -0,0 +1,100 @@
+import type { PrimeGroupReport } from "./prime-group";
+
+/**
+ * Base class of the errors thrown by SecureChannel.
+ */
+export class SecureChannelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The message was already received (its sequence number is behind).
+ */
+export class ReplayedMessageError extends SecureChannelError {}
+
+/**
+ * The message is ahead of the expected sequence number, because previous
+ * messages were dropped or reordered.
+ */
+export class OutOfOrderMessageError extends SecureChannelError {}
+
+/**
+ * The message was forged, corrupted or sealed with a different key.
+ */
+export class MessageAuthenticationError extends SecureChannelError {}
+
+/**
+ * A serialized envelope is malformed or uses an unsupported version or
+ * algorithm.
+ */
+export class EnvelopeFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The prime group of SRPParameters failed validatePrimeGroup.
+ */
+export class PrimeGroupValidationError extends Error {
+  constructor(public readonly report: PrimeGroupReport) {
+    super(`Invalid prime group: ${report.errors.join(", ")}`);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * A parameter or value is rejected by the SRPSecurityPolicy in use.
+ */
+export class SRPPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Password KDF parameters received from the server are too cheap or too
+ * costly for the SRPSecurityPolicy in use.
+ */
+export class PasswordKdfCostError extends SRPPolicyError {}
+
+/**
+ * TLV8 data is truncated or holds a value out of range.
+ */
+export class TLV8FormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Base class of the errors thrown when a value received from the peer is
+ * degenerate, which would let the peer force or guess the session key.
+ */
+export class SRPValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * A public value ("A" or "B") is not in [1, N - 1].
+ */
+export class PublicValueRangeError extends SRPValidationError {}
+
+/**
+ * A public value has order 1 or 2, or is not in the subgroup generated by g.
+ */
+export class PublicValueSubgroupError extends SRPValidationError {}
+
+/**
+ * The scrambling parameter "u" is zero (mod N).
+ */
+export class ScramblingParameterError extends SRPValidationError {}
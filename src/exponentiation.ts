@@ -0,0 +1,154 @@
+import type { SRPParameters } from "./parameters";
+
+/**
+ * Modular exponentiation engines behind modPow: sliding-window exponentiation
+ * for any base, and precomputed tables for the fixed base g of a group.
+ */
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+/**
+ * Right-to-left square-and-multiply, the modPow of earlier versions. Kept as
+ * the baseline of benchmarkModPow.
+ */
+export function modPowSquareAndMultiply(
+  x: bigint,
+  pow: bigint,
+  mod: bigint,
+): bigint {
+  let result: bigint = ONE;
+  while (pow > ZERO) {
+    if (pow % TWO === ONE) {
+      result = (x * result) % mod;
+      pow -= ONE;
+    } else {
+      x = (x * x) % mod;
+      pow /= TWO;
+    }
+  }
+  return result;
+}
+
+/**
+ * Window size minimizing squarings plus multiplications for exponents of
+ * the given size (HAC table 14.16).
+ */
+const windowBits = (bits: number): number =>
+  bits > 671 ? 6 : bits > 239 ? 5 : bits > 79 ? 4 : bits > 23 ? 3 : 1;
+
+/**
+ * Left-to-right sliding-window exponentiation (HAC algorithm 14.85): about
+ * one squaring per bit and one multiplication per window of up to 6 bits.
+ * Base, power and modulo must be valid, see modPow.
+ */
+export function modPowSlidingWindow(
+  x: bigint,
+  pow: bigint,
+  mod: bigint,
+): bigint {
+  if (pow === ZERO) {
+    return ONE;
+  }
+  const bits = pow.toString(2);
+  const k = windowBits(bits.length);
+  // odd powers x, x^3, ..., x^(2^k - 1)
+  const base = x % mod;
+  const odd = [base];
+  const square = (base * base) % mod;
+  for (let i = 1; i < 1 << (k - 1); i++) {
+    odd.push((odd[i - 1] * square) % mod);
+  }
+  let result = ONE;
+  for (let i = 0; i < bits.length; ) {
+    if (bits[i] === "0") {
+      result = (result * result) % mod;
+      i++;
+      continue;
+    }
+    // longest window of at most k bits ending with a 1
+    let j = Math.min(i + k, bits.length);
+    while (bits[j - 1] === "0") {
+      j--;
+    }
+    for (let s = i; s < j; s++) {
+      result = (result * result) % mod;
+    }
+    result = (result * odd[parseInt(bits.slice(i, j), 2) >> 1]) % mod;
+    i = j;
+  }
+  return result;
+}
+
+const FIXED_BASE_WINDOW_BITS = 5;
+
+/**
+ * Powers base^(2^(5i)) of a fixed base, extended on demand, for
+ * exponentiation without squarings (Yao's method, HAC algorithm 14.109):
+ * about one multiplication per 5 bits of exponent.
+ */
+export class FixedBaseTable {
+  private readonly powers: bigint[];
+
+  constructor(
+    public readonly base: bigint,
+    public readonly mod: bigint,
+  ) {
+    this.powers = [base % mod];
+  }
+
+  private power(i: number): bigint {
+    while (this.powers.length <= i) {
+      let next = this.powers[this.powers.length - 1];
+      for (let s = 0; s < FIXED_BASE_WINDOW_BITS; s++) {
+        next = (next * next) % this.mod;
+      }
+      this.powers.push(next);
+    }
+    return this.powers[i];
+  }
+
+  /**
+   * base^pow (mod mod), pow must not be negative.
+   */
+  public pow(pow: bigint): bigint {
+    const mask = BigInt((1 << FIXED_BASE_WINDOW_BITS) - 1);
+    const shift = BigInt(FIXED_BASE_WINDOW_BITS);
+    // indices of the base 32 digits of pow, by digit
+    const digits: number[][] = Array.from(
+      { length: 1 << FIXED_BASE_WINDOW_BITS },
+      () => [],
+    );
+    for (let i = 0; pow > ZERO; i++, pow >>= shift) {
+      digits[Number(pow & mask)].push(i);
+    }
+    let result = ONE;
+    let product = ONE;
+    for (let digit = digits.length - 1; digit > 0; digit--) {
+      for (const i of digits[digit]) {
+        product = (product * this.power(i)) % this.mod;
+      }
+      if (product !== ONE) {
+        result = (result * product) % this.mod;
+      }
+    }
+    return result;
+  }
+}
+
+const generatorTables = new WeakMap<SRPParameters, FixedBaseTable>();
+
+/**
+ * Table of the generator g of the parameters, shared by all routines using
+ * the same SRPParameters instance.
+ */
+export function generatorTable(parameters: SRPParameters): FixedBaseTable {
+  let table = generatorTables.get(parameters);
+  if (!table) {
+    const { g, N } = parameters.primeGroup;
+    table = new FixedBaseTable(g, N);
+    generatorTables.set(parameters, table);
+  }
+  return table;
+}
@@ -0,0 +1,252 @@
+import { TLV8FormatError } from "./errors";
+import { hkdf } from "./key-schedule";
+import { SRPParameters } from "./parameters";
+import { RFC5054Routines } from "./rfc5054-routines";
+import type { SRPRoutinesOptions } from "./routines";
+import {
+  decodeTLV8,
+  decodeTLV8Integer,
+  encodeTLV8,
+  encodeTLV8Integer,
+  TLV8Item,
+} from "./tlv8";
+import {
+  arrayBufferToBigInt,
+  bigIntToArrayBuffer,
+  padStartArrayBuffer,
+  stringToArrayBuffer,
+} from "./utils";
+
+/**
+ * Pair-setup of the HomeKit Accessory Protocol (HAP): SRP-6a with the 3072
+ * bits RFC 5054 group, SHA-512, the user name "Pair-Setup" and the setup code
+ * of the accessory ("XXX-XX-XXX") as password.
+ */
+
+export const HOMEKIT_PAIR_SETUP_USERNAME = "Pair-Setup";
+
+export const HOMEKIT_SALT_BYTES = 16;
+
+export const HOMEKIT_PARAMETERS = new SRPParameters(
+  SRPParameters.getPrimeGroup("rfc5054-3072"),
+  SRPParameters.H.SHA512,
+);
+
+const PUBLIC_VALUE_BYTES = 384;
+const PROOF_BYTES = 64;
+
+/**
+ * Routines of HAP pair-setup. They differ from RFC5054Routines in the bytes
+ * hashed: H(g) is not padded, A, B and S are padded to the size of N and the
+ * salt is always 16 bytes.
+ */
+export class HomeKitRoutines extends RFC5054Routines {
+  constructor(
+    parameters: SRPParameters = HOMEKIT_PARAMETERS,
+    options?: SRPRoutinesOptions,
+  ) {
+    super(parameters, options);
+  }
+
+  private padToN(value: bigint): ArrayBuffer {
+    return padStartArrayBuffer(
+      bigIntToArrayBuffer(value),
+      Math.trunc((this.parameters.NBits + 7) / 8),
+    );
+  }
+
+  public generateRandomSalt(
+    numBytes: number = HOMEKIT_SALT_BYTES,
+  ): Promise<bigint> {
+    return super.generateRandomSalt(numBytes);
+  }
+
+  public saltToArrayBuffer(s: bigint): ArrayBuffer {
+    return padStartArrayBuffer(bigIntToArrayBuffer(s), HOMEKIT_SALT_BYTES);
+  }
+
+  public publicValueToArrayBuffer(value: bigint): ArrayBuffer {
+    return this.padToN(value);
+  }
+
+  public computeSharedKey(S: bigint): Promise<ArrayBuffer> {
+    return this.hash(this.padToN(S));
+  }
+
+  public async computeGroupHash(): Promise<ArrayBuffer> {
+    const { N, g } = this.parameters.primeGroup;
+    const HN = new Uint8Array(await this.hash(bigIntToArrayBuffer(N)));
+    const Hg = new Uint8Array(await this.hash(bigIntToArrayBuffer(g)));
+    return HN.map((byte, i) => byte ^ Hg[i]).buffer;
+  }
+
+  /**
+   * Key of the ChaCha20-Poly1305 encrypted data of M5 and M6, derived from
+   * the premaster secret "S".
+   */
+  public async computePairSetupEncryptionKey(S: bigint): Promise<ArrayBuffer> {
+    return hkdf(
+      this.parameters,
+      await this.computeSharedKey(S),
+      stringToArrayBuffer("Pair-Setup-Encrypt-Salt"),
+      stringToArrayBuffer("Pair-Setup-Encrypt-Info"),
+      32,
+    );
+  }
+}
+
+/**
+ * TLV types of HAP pairing messages.
+ */
+export const HOMEKIT_TLV_TYPES = {
+  Method: 0x00,
+  Identifier: 0x01,
+  Salt: 0x02,
+  PublicKey: 0x03,
+  Proof: 0x04,
+  EncryptedData: 0x05,
+  State: 0x06,
+  Error: 0x07,
+  RetryDelay: 0x08,
+  Certificate: 0x09,
+  Signature: 0x0a,
+  Permissions: 0x0b,
+  FragmentData: 0x0c,
+  FragmentLast: 0x0d,
+  Flags: 0x13,
+  Separator: 0xff,
+};
+
+/**
+ * Values of the Error item of HAP pairing messages.
+ */
+export const HOMEKIT_TLV_ERRORS = {
+  Unknown: 0x01,
+  Authentication: 0x02,
+  Backoff: 0x03,
+  MaxPeers: 0x04,
+  MaxTries: 0x05,
+  Unavailable: 0x06,
+  Busy: 0x07,
+};
+
+/**
+ * A pair-setup message, M1 to M6 by state:
+ *
+ * - M1 (controller): method 0
+ * - M2 (accessory): salt and publicKey "B"
+ * - M3 (controller): publicKey "A" and proof "M1"
+ * - M4 (accessory): proof "M2"
+ * - M5 (controller) and M6 (accessory): encryptedData
+ *
+ * Accessories answer any state with an error instead when pairing fails.
+ */
+export interface PairSetupMessage {
+  state: number;
+  method?: number;
+  salt?: bigint;
+  publicKey?: bigint;
+  proof?: bigint;
+  encryptedData?: Uint8Array;
+  error?: number;
+  /**
+   * Seconds to wait after a Backoff error
+   */
+  retryDelay?: number;
+}
+
+const toBigInt = (value: Uint8Array) => {
+  if (value.length === 0) {
+    throw new TLV8FormatError("Empty TLV8 number");
+  }
+  return arrayBufferToBigInt(value.buffer as ArrayBuffer);
+};
+
+const fixedLengthBytes = (value: bigint, length: number) =>
+  new Uint8Array(padStartArrayBuffer(bigIntToArrayBuffer(value), length));
+
+export function encodePairSetupMessage(message: PairSetupMessage): Uint8Array {
+  const T = HOMEKIT_TLV_TYPES;
+  const items: TLV8Item[] = [
+    { type: T.State, value: encodeTLV8Integer(message.state) },
+  ];
+  if (message.method !== undefined) {
+    items.push({ type: T.Method, value: encodeTLV8Integer(message.method) });
+  }
+  if (message.salt !== undefined) {
+    items.push({
+      type: T.Salt,
+      value: fixedLengthBytes(message.salt, HOMEKIT_SALT_BYTES),
+    });
+  }
+  if (message.publicKey !== undefined) {
+    items.push({
+      type: T.PublicKey,
+      value: fixedLengthBytes(message.publicKey, PUBLIC_VALUE_BYTES),
+    });
+  }
+  if (message.proof !== undefined) {
+    items.push({
+      type: T.Proof,
+      value: fixedLengthBytes(message.proof, PROOF_BYTES),
+    });
+  }
+  if (message.encryptedData !== undefined) {
+    items.push({ type: T.EncryptedData, value: message.encryptedData });
+  }
+  if (message.error !== undefined) {
+    items.push({ type: T.Error, value: encodeTLV8Integer(message.error) });
+  }
+  if (message.retryDelay !== undefined) {
+    items.push({
+      type: T.RetryDelay,
+      value: encodeTLV8Integer(message.retryDelay),
+    });
+  }
+  return encodeTLV8(items);
+}
+
+/**
+ * Items of other types are ignored.
+ * @throws TLV8FormatError if the data is malformed or has no state
+ */
+export function decodePairSetupMessage(data: Uint8Array): PairSetupMessage {
+  const T = HOMEKIT_TLV_TYPES;
+  const values = new Map(
+    decodeTLV8(data).map(({ type, value }) => [type, value]),
+  );
+  const state = values.get(T.State);
+  if (!state) {
+    throw new TLV8FormatError("Pair-setup message without state");
+  }
+  const message: PairSetupMessage = { state: decodeTLV8Integer(state) };
+  const method = values.get(T.Method);
+  if (method) {
+    message.method = decodeTLV8Integer(method);
+  }
+  const salt = values.get(T.Salt);
+  if (salt) {
+    message.salt = toBigInt(salt);
+  }
+  const publicKey = values.get(T.PublicKey);
+  if (publicKey) {
+    message.publicKey = toBigInt(publicKey);
+  }
+  const proof = values.get(T.Proof);
+  if (proof) {
+    message.proof = toBigInt(proof);
+  }
+  const encryptedData = values.get(T.EncryptedData);
+  if (encryptedData) {
+    message.encryptedData = encryptedData;
+  }
+  const error = values.get(T.Error);
+  if (error) {
+    message.error = decodeTLV8Integer(error);
+  }
+  const retryDelay = values.get(T.RetryDelay);
+  if (retryDelay) {
+    message.retryDelay = decodeTLV8Integer(retryDelay);
+  }
+  return message;
+}
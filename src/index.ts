@@ -1,5 +1,74 @@
-export { HashFunction, PrimeGroup, SRPParameters } from "./parameters";
-export { SRPRoutines } from "./routines";
+export {
+  HashFunction,
+  PrimeGroup,
+  PrimeGroupName,
+  SRPParameters,
+} from "./parameters";
+export {
+  generatePrimeGroup,
+  PrimeGroupGenerationOptions,
+  PrimeGroupGenerationProgress,
+  PrimeGroupReport,
+  PrimeGroupValidationOptions,
+  validatePrimeGroup,
+} from "./prime-group";
+export {
+  PasswordKdfLimits,
+  SRPSecurityPolicy,
+  SRPSecurityPolicyOptions,
+} from "./policy";
+export {
+  NIMBUS_PADDING,
+  SRPKeyDerivation,
+  SRPPadding,
+  SRPRoutines,
+  SRPRoutinesOptions,
+} from "./routines";
+export { RFC5054Routines } from "./rfc5054-routines";
+export {
+  decodePairSetupMessage,
+  encodePairSetupMessage,
+  HOMEKIT_PAIR_SETUP_USERNAME,
+  HOMEKIT_PARAMETERS,
+  HOMEKIT_SALT_BYTES,
+  HOMEKIT_TLV_ERRORS,
+  HOMEKIT_TLV_TYPES,
+  HomeKitRoutines,
+  PairSetupMessage,
+} from "./homekit";
+export {
+  COGNITO_PARAMETERS,
+  CognitoChallengeParameters,
+  CognitoChallengeResponses,
+  CognitoClientSession,
+  CognitoClientSessionStep1,
+  CognitoRoutines,
+  formatCognitoTimestamp,
+} from "./cognito";
+export {
+  getProfile,
+  SRP_PROFILES,
+  SRPProfile,
+  SRPProfileName,
+  SRPProfileOptions,
+} from "./profiles";
+export {
+  decodeTLV8,
+  decodeTLV8Integer,
+  encodeTLV8,
+  encodeTLV8Integer,
+  TLV8_SEPARATOR,
+  TLV8Item,
+} from "./tlv8";
+export {
+  Argon2idParams,
+  createPasswordKdf,
+  PASSWORD_KDF_DEFAULTS,
+  PasswordKdf,
+  PasswordKdfParams,
+  Pbkdf2Params,
+  ScryptParams,
+} from "./password-kdf";
 export {
   SRPClientSession,
   SRPClientSessionStep1,
@@ -11,7 +80,17 @@ export {
   SRPServerSession,
   SRPServerSessionStep1,
   SRPServerSessionStep1State,
+  SRPServerSessionStep2,
+  SRPServerSessionStep2State,
 } from "./session-server";
+export { constantTimeEqual, constantTimeEqualBigInt } from "./constant-time";
+export { BigIntBackend, nativeBackend } from "./bigint-backend";
+export { createWasmBackend } from "./wasm-backend";
+export {
+  benchmarkModPow,
+  ModPowBenchmarkOptions,
+  ModPowBenchmarkResult,
+} from "./benchmark";
 export {
   arrayBufferToBigInt,
   bigIntToArrayBuffer,
@@ -19,4 +98,64 @@ export {
   generateRandomBigInt,
   IVerifierAndSalt,
 } from "./utils";
-export { encrypt, decrypt, decryptToString } from "./encryption";
+export {
+  EnvelopeFormatError,
+  MessageAuthenticationError,
+  OutOfOrderMessageError,
+  PasswordKdfCostError,
+  PrimeGroupValidationError,
+  PublicValueRangeError,
+  PublicValueSubgroupError,
+  ReplayedMessageError,
+  ScramblingParameterError,
+  SecureChannelError,
+  SRPPolicyError,
+  SRPValidationError,
+  TLV8FormatError,
+} from "./errors";
+export {
+  deriveSessionCryptoKeys,
+  SessionCryptoKeys,
+  SessionOptions,
+} from "./crypto-keys";
+export {
+  MAX_GENERATION_SKIP,
+  SecureChannel,
+  SecureChannelOptions,
+} from "./secure-channel";
+export {
+  deriveSessionKeys,
+  exportKeyingMaterial,
+  HandshakeTranscript,
+  hkdf,
+  KeyScheduleOptions,
+  SessionKeys,
+} from "./key-schedule";
+export {
+  EncryptedEnvelope,
+  EncryptionAlgorithm,
+  ENCRYPTION_VERSION,
+  EnvelopeFormat,
+  EnvelopeJSON,
+  parseEnvelope,
+  serializeEnvelope,
+} from "./envelope";
+export {
+  AssociatedData,
+  DecryptArgs,
+  DecryptOptions,
+  EncryptionKey,
+  EncryptOptions,
+  encrypt,
+  decrypt,
+  decryptToString,
+} from "./encryption";
+export {
+  createDecryptStream,
+  createEncryptStream,
+  DEFAULT_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  StreamDecryptionOptions,
+  StreamEncryptionOptions,
+  STREAM_VERSION,
+} from "./stream";
@@ -0,0 +1,364 @@
+import { SRPParameters } from "./parameters";
+import type { SRPRoutines } from "./routines";
+import {
+  bigIntToArrayBuffer,
+  hashBitCount,
+  hmac,
+  padStartArrayBuffer,
+  stringToArrayBuffer,
+} from "./utils";
+
+/**
+ * Key schedule deriving encryption keys from the shared session secret "S"
+ * with HKDF (RFC 5869), using the hash function negotiated for the session.
+ */
+
+/**
+ * Public values of the handshake, the HKDF salt is bound to them.
+ */
+export interface HandshakeTranscript {
+  A: bigint;
+  B: bigint;
+  salt: bigint;
+}
+
+export interface KeyScheduleOptions {
+  /**
+   * HKDF info label of the key encrypting client to server messages
+   */
+  clientToServerLabel?: string;
+  /**
+   * HKDF info label of the key encrypting server to client messages
+   */
+  serverToClientLabel?: string;
+  /**
+   * Application context appended to both labels
+   */
+  context?: string | ArrayBuffer;
+}
+
+export interface SessionKeys {
+  clientToServer: ArrayBuffer;
+  serverToClient: ArrayBuffer;
+}
+
+/**
+ * Label of the key derived from "S" alone, see deriveRawKey
+ */
+const RAW_KEY_LABEL = "tssrp6a aes-256-gcm";
+
+export const CLIENT_TO_SERVER_LABEL = "tssrp6a client to server";
+export const SERVER_TO_CLIENT_LABEL = "tssrp6a server to client";
+
+/**
+ * AES-256 key size
+ */
+const SESSION_KEY_BYTES = 32;
+
+export function hkdfExtract(
+  parameters: SRPParameters,
+  salt: ArrayBuffer,
+  ikm: ArrayBuffer,
+): Promise<ArrayBuffer> {
+  return hmac(parameters, salt, ikm);
+}
+
+export async function hkdfExpand(
+  parameters: SRPParameters,
+  prk: ArrayBuffer,
+  info: ArrayBuffer,
+  length: number,
+): Promise<ArrayBuffer> {
+  const okm = new Uint8Array(length);
+  let block = new ArrayBuffer(0);
+  for (let offset = 0, i = 1; offset < length; i++) {
+    if (i > 255) {
+      throw new Error(`HKDF output length too large: ${length}`);
+    }
+    block = await hmac(
+      parameters,
+      prk,
+      block,
+      info,
+      new Uint8Array([i]).buffer,
+    );
+    okm.set(new Uint8Array(block).slice(0, length - offset), offset);
+    offset += block.byteLength;
+  }
+  return okm.buffer;
+}
+
+export async function hkdf(
+  parameters: SRPParameters,
+  ikm: ArrayBuffer,
+  salt: ArrayBuffer,
+  info: ArrayBuffer,
+  length: number,
+): Promise<ArrayBuffer> {
+  const prk = await hkdfExtract(parameters, salt, ikm);
+  return hkdfExpand(parameters, prk, info, length);
+}
+
+const toArrayBuffer = (data: string | ArrayBuffer): ArrayBuffer =>
+  typeof data === "string" ? stringToArrayBuffer(data) : data;
+
+const concat = (...arrays: ArrayBuffer[]): ArrayBuffer => {
+  const target = new Uint8Array(
+    arrays.reduce((length, array) => length + array.byteLength, 0),
+  );
+  arrays.reduce((offset, array) => {
+    target.set(new Uint8Array(array), offset);
+    return offset + array.byteLength;
+  }, 0);
+  return target.buffer;
+};
+
+/**
+ * HKDF salt H(PAD(A) | PAD(B) | s), binding the keys to the handshake.
+ */
+export function transcriptSalt(
+  routines: SRPRoutines,
+  { A, B, salt }: HandshakeTranscript,
+): Promise<ArrayBuffer> {
+  const NBytes = Math.trunc((routines.parameters.NBits + 7) / 8);
+  return routines.hash(
+    padStartArrayBuffer(bigIntToArrayBuffer(A), NBytes),
+    padStartArrayBuffer(bigIntToArrayBuffer(B), NBytes),
+    bigIntToArrayBuffer(salt),
+  );
+}
+
+/**
+ * HKDF-Extract of the padded session secret, salted with the transcript.
+ */
+async function sessionPrk(
+  routines: SRPRoutines,
+  S: bigint,
+  transcript: HandshakeTranscript,
+): Promise<ArrayBuffer> {
+  const NBytes = Math.trunc((routines.parameters.NBits + 7) / 8);
+  return hkdfExtract(
+    routines.parameters,
+    await transcriptSalt(routines, transcript),
+    padStartArrayBuffer(bigIntToArrayBuffer(S), NBytes),
+  );
+}
+
+/**
+ * AES-256 key from "S" alone with HKDF-SHA-512, not bound to the handshake:
+ * the key of `encrypt` given "S" and of sessions with the "raw" key
+ * derivation.
+ */
+export function deriveRawKey(S: bigint): Promise<ArrayBuffer> {
+  return hkdf(
+    new SRPParameters(),
+    bigIntToArrayBuffer(S),
+    new ArrayBuffer(0),
+    stringToArrayBuffer(RAW_KEY_LABEL),
+    SESSION_KEY_BYTES,
+  );
+}
+
+/**
+ * Derive the per-direction encryption keys from the session secret "S", or
+ * the raw key for both if the routines use the "raw" key derivation.
+ * @param routines - Routines of the session, their hash function is used
+ * @param S - Shared session secret
+ * @param transcript - Public values of the handshake
+ * @param options - Labels and application context, see KeyScheduleOptions
+ */
+export async function deriveSessionKeys(
+  routines: SRPRoutines,
+  S: bigint,
+  transcript: HandshakeTranscript,
+  options: KeyScheduleOptions = {},
+): Promise<SessionKeys> {
+  const {
+    clientToServerLabel = CLIENT_TO_SERVER_LABEL,
+    serverToClientLabel = SERVER_TO_CLIENT_LABEL,
+    context = new ArrayBuffer(0),
+  } = options;
+  if (clientToServerLabel === serverToClientLabel) {
+    throw new Error("Client and server key labels must differ");
+  }
+  if (routines.keyDerivation === "raw") {
+    const key = await deriveRawKey(S);
+    return { clientToServer: key, serverToClient: key.slice(0) };
+  }
+
+  const prk = await sessionPrk(routines, S, transcript);
+  const info = (label: string) =>
+    concat(
+      stringToArrayBuffer(label),
+      new ArrayBuffer(1),
+      toArrayBuffer(context),
+    );
+
+  return {
+    clientToServer: await hkdfExpand(
+      routines.parameters,
+      prk,
+      info(clientToServerLabel),
+      SESSION_KEY_BYTES,
+    ),
+    serverToClient: await hkdfExpand(
+      routines.parameters,
+      prk,
+      info(serverToClientLabel),
+      SESSION_KEY_BYTES,
+    ),
+  };
+}
+
+const EXPORTER_LABEL = "tssrp6a exporter";
+
+/**
+ * Secret of the keys used by this library itself, like the HMAC key of
+ * deriveSessionCryptoKeys. Like EXPORTER_LABEL it has no zero byte, so the
+ * session key labels, followed by one, can't reach it.
+ */
+const INTERNAL_LABEL = "tssrp6a internal";
+
+/**
+ * Expand a secret named by secretLabel from the session PRK, then a key of
+ * the given label, context and length from that secret.
+ */
+async function expandKeyingMaterial(
+  routines: SRPRoutines,
+  S: bigint,
+  transcript: HandshakeTranscript,
+  secretLabel: string,
+  label: string,
+  context: string | ArrayBuffer,
+  length: number,
+): Promise<ArrayBuffer> {
+  const { parameters } = routines;
+  const secret = await hkdfExpand(
+    parameters,
+    await sessionPrk(routines, S, transcript),
+    stringToArrayBuffer(secretLabel),
+    (await hashBitCount(parameters)) / 8,
+  );
+  const lengthBytes = new ArrayBuffer(2);
+  new DataView(lengthBytes).setUint16(0, length);
+  return hkdfExpand(
+    parameters,
+    secret,
+    concat(
+      lengthBytes,
+      stringToArrayBuffer(label),
+      new ArrayBuffer(1),
+      toArrayBuffer(context),
+    ),
+    length,
+  );
+}
+
+/**
+ * Export keying material for use outside this library, in the style of
+ * RFC 5705. A separate exporter secret is expanded from the session PRK, so
+ * exported keys are independent of the session keys whatever the label, and
+ * the output length is part of the HKDF info.
+ * @param routines - Routines of the session, their hash function is used
+ * @param S - Shared session secret
+ * @param transcript - Public values of the handshake
+ * @param label - Names the purpose of the key, like "websocket token"
+ * @param context - Application context, may be empty
+ * @param length - Output length in bytes
+ */
+export async function exportKeyingMaterial(
+  routines: SRPRoutines,
+  S: bigint,
+  transcript: HandshakeTranscript,
+  label: string,
+  context: string | ArrayBuffer,
+  length: number,
+): Promise<ArrayBuffer> {
+  if (!label) {
+    throw new Error("Exporter label must not be empty");
+  }
+  if (!Number.isInteger(length) || length < 1 || length > 0xffff) {
+    throw new Error(`Invalid exporter length: ${length}`);
+  }
+  return expandKeyingMaterial(
+    routines,
+    S,
+    transcript,
+    EXPORTER_LABEL,
+    label,
+    context,
+    length,
+  );
+}
+
+/**
+ * Derive a key used by this library itself. Its secret is independent of
+ * the one of exportKeyingMaterial, so no exporter label gives the same
+ * bytes.
+ */
+export function deriveInternalKey(
+  routines: SRPRoutines,
+  S: bigint,
+  transcript: HandshakeTranscript,
+  label: string,
+  context: string | ArrayBuffer,
+  length: number,
+): Promise<ArrayBuffer> {
+  return expandKeyingMaterial(
+    routines,
+    S,
+    transcript,
+    INTERNAL_LABEL,
+    label,
+    context,
+    length,
+  );
+}
+
+const CHANNEL_LABEL = "tssrp6a channel";
+
+/**
+ * Overwrite both keys with zeros
+ */
+export function wipeSessionKeys(keys: SessionKeys): void {
+  new Uint8Array(keys.clientToServer).fill(0);
+  new Uint8Array(keys.serverToClient).fill(0);
+}
+
+/**
+ * Derive the first keys of SecureChannel. They come from the internal
+ * secret, so they never equal the keys of encrypt/decrypt and channel nonces
+ * can't collide with the random IVs of encrypt.
+ * @param routines - Routines of the session, their hash function is used
+ * @param S - Shared session secret
+ * @param transcript - Public values of the handshake
+ * @param options - Labels and application context, see KeyScheduleOptions
+ */
+export async function deriveChannelKeys(
+  routines: SRPRoutines,
+  S: bigint,
+  transcript: HandshakeTranscript,
+  options: KeyScheduleOptions = {},
+): Promise<SessionKeys> {
+  const {
+    clientToServerLabel = CLIENT_TO_SERVER_LABEL,
+    serverToClientLabel = SERVER_TO_CLIENT_LABEL,
+    context = new ArrayBuffer(0),
+  } = options;
+  if (clientToServerLabel === serverToClientLabel) {
+    throw new Error("Client and server key labels must differ");
+  }
+  const derive = (label: string) =>
+    deriveInternalKey(
+      routines,
+      S,
+      transcript,
+      `${CHANNEL_LABEL} ${label}`,
+      context,
+      SESSION_KEY_BYTES,
+    );
+  return {
+    clientToServer: await derive(clientToServerLabel),
+    serverToClient: await derive(serverToClientLabel),
+  };
+}
@@ -0,0 +1,236 @@
+;; Montgomery arithmetic of the WASM big integer backend, see wasm-backend.ts.
+;;
+;; Numbers are arrays of len little-endian 32 bit words at byte offsets of the
+;; memory. The modulus n is odd, n0 = -1 / n mod 2^32 and R = 2^(32 len).
+;; Loops and memory accesses only depend on len and on the exponent length,
+;; never on the values.
+;;
+;; Compiled with `wat2wasm src/montgomery.wat` (wabt), the output is embedded
+;; in wasm-backend.ts as base64.
+(module
+  (memory (export "memory") 1)
+
+  (func $word (param $p i32) (param $i i32) (result i64)
+    (i64.extend_i32_u
+      (i32.load (i32.add (local.get $p) (i32.shl (local.get $i) (i32.const 2))))))
+
+  (func $setWord (param $p i32) (param $i i32) (param $value i64)
+    (i32.store
+      (i32.add (local.get $p) (i32.shl (local.get $i) (i32.const 2)))
+      (i32.wrap_i64 (local.get $value))))
+
+  (func $fill (param $p i32) (param $length i32) (param $value i32)
+    (local $i i32)
+    (block $done
+      (loop $next
+        (br_if $done (i32.ge_u (local.get $i) (local.get $length)))
+        (i32.store
+          (i32.add (local.get $p) (i32.shl (local.get $i) (i32.const 2)))
+          (local.get $value))
+        (local.set $i (i32.add (local.get $i) (i32.const 1)))
+        (br $next))))
+
+  (func $copy (param $dst i32) (param $src i32) (param $len i32)
+    (local $i i32)
+    (block $done
+      (loop $next
+        (br_if $done (i32.ge_u (local.get $i) (local.get $len)))
+        (call $setWord (local.get $dst) (local.get $i)
+          (call $word (local.get $src) (local.get $i)))
+        (local.set $i (i32.add (local.get $i) (i32.const 1)))
+        (br $next))))
+
+  ;; r = a b / R mod n for a, b < n (CIOS method, HAC algorithm 14.36, with
+  ;; the multiplication and reduction loops merged). t is a scratch array of
+  ;; len + 1 words, r may be a or b.
+  (func $montMul (export "montMul")
+    (param $r i32) (param $a i32) (param $b i32) (param $n i32) (param $n0 i32)
+    (param $len i32) (param $t i32)
+    (local $i i32) (local $end i32) (local $pa i32) (local $pn i32) (local $pt i32)
+    (local $bi i64) (local $m i64) (local $s i64) (local $carry i64)
+    (local $reduced i64) (local $mask i32)
+    (call $fill (local.get $t) (i32.add (local.get $len) (i32.const 1)) (i32.const 0))
+    (local.set $end (i32.add (local.get $t) (i32.shl (local.get $len) (i32.const 2))))
+    (loop $outer
+      ;; t = (t + a b[i] + m n) / 2^32, with m making the low word zero
+      (local.set $bi
+        (i64.load32_u
+          (i32.add (local.get $b) (i32.shl (local.get $i) (i32.const 2)))))
+      (local.set $s
+        (i64.add
+          (i64.load32_u (local.get $t))
+          (i64.mul (i64.load32_u (local.get $a)) (local.get $bi))))
+      (local.set $carry (i64.shr_u (local.get $s) (i64.const 32)))
+      (local.set $s (i64.and (local.get $s) (i64.const 0xffffffff)))
+      (local.set $m
+        (i64.and
+          (i64.mul (local.get $s) (i64.extend_i32_u (local.get $n0)))
+          (i64.const 0xffffffff)))
+      (local.set $reduced
+        (i64.shr_u
+          (i64.add
+            (local.get $s)
+            (i64.mul (local.get $m) (i64.load32_u (local.get $n))))
+          (i64.const 32)))
+      (local.set $pa (i32.add (local.get $a) (i32.const 4)))
+      (local.set $pn (i32.add (local.get $n) (i32.const 4)))
+      (local.set $pt (i32.add (local.get $t) (i32.const 4)))
+      (block $words
+        (loop $word
+          (br_if $words (i32.ge_u (local.get $pt) (local.get $end)))
+          (local.set $s
+            (i64.add
+              (i64.add
+                (i64.load32_u (local.get $pt))
+                (i64.mul (i64.load32_u (local.get $pa)) (local.get $bi)))
+              (local.get $carry)))
+          (local.set $carry (i64.shr_u (local.get $s) (i64.const 32)))
+          (local.set $s
+            (i64.add
+              (i64.add
+                (i64.and (local.get $s) (i64.const 0xffffffff))
+                (i64.mul (local.get $m) (i64.load32_u (local.get $pn))))
+              (local.get $reduced)))
+          (local.set $reduced (i64.shr_u (local.get $s) (i64.const 32)))
+          (i64.store32 (i32.sub (local.get $pt) (i32.const 4)) (local.get $s))
+          (local.set $pa (i32.add (local.get $pa) (i32.const 4)))
+          (local.set $pn (i32.add (local.get $pn) (i32.const 4)))
+          (local.set $pt (i32.add (local.get $pt) (i32.const 4)))
+          (br $word)))
+      (local.set $s
+        (i64.add
+          (i64.add (i64.load32_u (local.get $end)) (local.get $carry))
+          (local.get $reduced)))
+      (i64.store32 (i32.sub (local.get $end) (i32.const 4)) (local.get $s))
+      (i64.store32 (local.get $end) (i64.shr_u (local.get $s) (i64.const 32)))
+      (local.set $i (i32.add (local.get $i) (i32.const 1)))
+      (br_if $outer (i32.lt_u (local.get $i) (local.get $len))))
+    ;; r = t - n, carry is the borrow
+    (local.set $carry (i64.const 0))
+    (local.set $i (i32.const 0))
+    (loop $subtract
+      (local.set $s
+        (i64.sub
+          (i64.sub
+            (call $word (local.get $t) (local.get $i))
+            (call $word (local.get $n) (local.get $i)))
+          (local.get $carry)))
+      (call $setWord (local.get $r) (local.get $i) (local.get $s))
+      (local.set $carry (i64.shr_u (local.get $s) (i64.const 63)))
+      (local.set $i (i32.add (local.get $i) (i32.const 1)))
+      (br_if $subtract (i32.lt_u (local.get $i) (local.get $len))))
+    ;; keep t - n if t >= n, else t, without branching
+    (local.set $mask
+      (i32.sub
+        (i32.const 0)
+        (i64.ge_u (i64.load32_u (local.get $end)) (local.get $carry))))
+    (local.set $i (i32.const 0))
+    (loop $select
+      (call $setWord (local.get $r) (local.get $i)
+        (i64.extend_i32_u
+          (i32.or
+            (i32.and
+              (i32.wrap_i64 (call $word (local.get $r) (local.get $i)))
+              (local.get $mask))
+            (i32.and
+              (i32.wrap_i64 (call $word (local.get $t) (local.get $i)))
+              (i32.xor (local.get $mask) (i32.const -1))))))
+      (local.set $i (i32.add (local.get $i) (i32.const 1)))
+      (br_if $select (i32.lt_u (local.get $i) (local.get $len)))))
+
+  ;; dst = table[index] of 16 entries, reading all of them
+  (func $select (param $dst i32) (param $table i32) (param $index i32) (param $len i32)
+    (local $k i32) (local $j i32) (local $mask i32) (local $entry i32) (local $p i32)
+    (call $fill (local.get $dst) (local.get $len) (i32.const 0))
+    (loop $entries
+      (local.set $mask
+        (i32.sub (i32.const 0) (i32.eq (local.get $k) (local.get $index))))
+      (local.set $entry
+        (i32.add
+          (local.get $table)
+          (i32.shl (i32.mul (local.get $k) (local.get $len)) (i32.const 2))))
+      (local.set $j (i32.const 0))
+      (loop $words
+        (local.set $p
+          (i32.add (local.get $dst) (i32.shl (local.get $j) (i32.const 2))))
+        (i32.store
+          (local.get $p)
+          (i32.or
+            (i32.load (local.get $p))
+            (i32.and
+              (i32.load
+                (i32.add (local.get $entry) (i32.shl (local.get $j) (i32.const 2))))
+              (local.get $mask))))
+        (local.set $j (i32.add (local.get $j) (i32.const 1)))
+        (br_if $words (i32.lt_u (local.get $j) (local.get $len))))
+      (local.set $k (i32.add (local.get $k) (i32.const 1)))
+      (br_if $entries (i32.lt_u (local.get $k) (i32.const 16)))))
+
+  ;; r = base^exp mod n with 4 bit fixed windows, for base < n. exp has expLen
+  ;; words, rr = R^2 mod n and one = R mod n. scratch holds 19 len + 1 words.
+  (func (export "modExp")
+    (param $r i32) (param $base i32) (param $exp i32) (param $expLen i32)
+    (param $n i32) (param $n0 i32) (param $rr i32) (param $one i32)
+    (param $len i32) (param $scratch i32)
+    (local $size i32) (local $acc i32) (local $selected i32) (local $t i32)
+    (local $table i32) (local $k i32) (local $w i32) (local $digit i32)
+    (local.set $size (i32.shl (local.get $len) (i32.const 2)))
+    (local.set $acc (local.get $scratch))
+    (local.set $selected (i32.add (local.get $acc) (local.get $size)))
+    (local.set $t (i32.add (local.get $selected) (local.get $size)))
+    (local.set $table
+      (i32.add (local.get $t) (i32.add (local.get $size) (i32.const 4))))
+    ;; table[k] = base^k R mod n
+    (call $copy (local.get $table) (local.get $one) (local.get $len))
+    (call $montMul
+      (i32.add (local.get $table) (local.get $size))
+      (local.get $base) (local.get $rr) (local.get $n) (local.get $n0)
+      (local.get $len) (local.get $t))
+    (local.set $k (i32.const 2))
+    (loop $powers
+      (call $montMul
+        (i32.add (local.get $table) (i32.mul (local.get $k) (local.get $size)))
+        (i32.add
+          (local.get $table)
+          (i32.mul (i32.sub (local.get $k) (i32.const 1)) (local.get $size)))
+        (i32.add (local.get $table) (local.get $size))
+        (local.get $n) (local.get $n0) (local.get $len) (local.get $t))
+      (local.set $k (i32.add (local.get $k) (i32.const 1)))
+      (br_if $powers (i32.lt_u (local.get $k) (i32.const 16))))
+    ;; 4 squarings and a multiplication per 4 bit digit, from the top
+    (call $copy (local.get $acc) (local.get $one) (local.get $len))
+    (local.set $w (i32.shl (local.get $expLen) (i32.const 3)))
+    (block $done
+      (loop $digits
+        (br_if $done (i32.eqz (local.get $w)))
+        (local.set $w (i32.sub (local.get $w) (i32.const 1)))
+        (local.set $k (i32.const 0))
+        (loop $squarings
+          (call $montMul
+            (local.get $acc) (local.get $acc) (local.get $acc)
+            (local.get $n) (local.get $n0) (local.get $len) (local.get $t))
+          (local.set $k (i32.add (local.get $k) (i32.const 1)))
+          (br_if $squarings (i32.lt_u (local.get $k) (i32.const 4))))
+        (local.set $digit
+          (i32.and
+            (i32.shr_u
+              (i32.load
+                (i32.add
+                  (local.get $exp)
+                  (i32.shl (i32.shr_u (local.get $w) (i32.const 3)) (i32.const 2))))
+              (i32.shl (i32.and (local.get $w) (i32.const 7)) (i32.const 2)))
+            (i32.const 15)))
+        (call $select
+          (local.get $selected) (local.get $table) (local.get $digit)
+          (local.get $len))
+        (call $montMul
+          (local.get $acc) (local.get $acc) (local.get $selected)
+          (local.get $n) (local.get $n0) (local.get $len) (local.get $t))
+        (br $digits)))
+    ;; r = acc / R
+    (call $fill (local.get $selected) (local.get $len) (i32.const 0))
+    (i32.store (local.get $selected) (i32.const 1))
+    (call $montMul
+      (local.get $r) (local.get $acc) (local.get $selected)
+      (local.get $n) (local.get $n0) (local.get $len) (local.get $t)))
+)
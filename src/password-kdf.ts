@@ -0,0 +1,189 @@
+import { argon2id } from "./argon2";
+import { getCompatibleCrypto } from "./cross-env-crypto";
+import { scryptROMix } from "./scrypt";
+
+/**
+ * Password hardening for SRPRoutines.computeX: with a PasswordKdf, x is
+ * H(s | KDF(identity hash, s)) instead of H(s | identity hash), so each
+ * guess against a leaked verifier costs a KDF evaluation.
+ *
+ * The parameters are plain JSON, store them with the salt and verifier and
+ * send them to the client with the salt.
+ */
+
+export interface Pbkdf2Params {
+  algorithm: "PBKDF2";
+  hash: "SHA-256" | "SHA-384" | "SHA-512";
+  iterations: number;
+}
+
+export interface ScryptParams {
+  algorithm: "scrypt";
+  /**
+   * CPU and memory cost, a power of 2
+   */
+  N: number;
+  /**
+   * Block size
+   */
+  r: number;
+  /**
+   * Parallelization
+   */
+  p: number;
+}
+
+export interface Argon2idParams {
+  algorithm: "argon2id";
+  memoryKiB: number;
+  iterations: number;
+  parallelism: number;
+}
+
+export type PasswordKdfParams = Pbkdf2Params | ScryptParams | Argon2idParams;
+
+export interface PasswordKdf {
+  readonly params: PasswordKdfParams;
+  derive(
+    password: ArrayBuffer,
+    salt: ArrayBuffer,
+    length: number,
+  ): Promise<ArrayBuffer>;
+}
+
+/**
+ * Recommended costs (OWASP password storage cheat sheet).
+ */
+export const PASSWORD_KDF_DEFAULTS: {
+  PBKDF2: Pbkdf2Params;
+  scrypt: ScryptParams;
+  argon2id: Argon2idParams;
+} = {
+  PBKDF2: { algorithm: "PBKDF2", hash: "SHA-256", iterations: 600000 },
+  scrypt: { algorithm: "scrypt", N: 2 ** 17, r: 8, p: 1 },
+  argon2id: {
+    algorithm: "argon2id",
+    memoryKiB: 19 * 1024,
+    iterations: 2,
+    parallelism: 1,
+  },
+};
+
+/**
+ * Parameters may come from the network, reject costs that would exhaust the
+ * memory of the client.
+ */
+const MAX_MEMORY_BYTES = 2 ** 30;
+
+const isPositiveInteger = (n: unknown): n is number =>
+  typeof n === "number" && Number.isInteger(n) && n > 0;
+
+export async function pbkdf2(
+  password: ArrayBuffer,
+  salt: ArrayBuffer,
+  iterations: number,
+  hash: Pbkdf2Params["hash"],
+  length: number,
+): Promise<ArrayBuffer> {
+  const { subtle } = await getCompatibleCrypto();
+  if (!subtle) {
+    throw new Error("PBKDF2 requires Web Crypto Subtle");
+  }
+  const key = await subtle.importKey("raw", password, "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  return subtle.deriveBits(
+    { name: "PBKDF2", hash, salt, iterations },
+    key,
+    8 * length,
+  );
+}
+
+function checkParams(params: PasswordKdfParams): void {
+  switch (params.algorithm) {
+    case "PBKDF2":
+      if (
+        !["SHA-256", "SHA-384", "SHA-512"].includes(params.hash) ||
+        !isPositiveInteger(params.iterations)
+      ) {
+        throw new Error("Invalid PBKDF2 parameters");
+      }
+      return;
+    case "scrypt": {
+      const { N, r, p } = params;
+      if (
+        !isPositiveInteger(N) ||
+        N < 2 ||
+        (N & (N - 1)) !== 0 ||
+        !isPositiveInteger(r) ||
+        !isPositiveInteger(p) ||
+        128 * r * (N + p) > MAX_MEMORY_BYTES
+      ) {
+        throw new Error("Invalid scrypt parameters");
+      }
+      return;
+    }
+    case "argon2id": {
+      const { memoryKiB, iterations, parallelism } = params;
+      if (
+        !isPositiveInteger(parallelism) ||
+        parallelism > 0xffffff ||
+        !isPositiveInteger(memoryKiB) ||
+        memoryKiB < 8 * parallelism ||
+        memoryKiB * 1024 > MAX_MEMORY_BYTES ||
+        !isPositiveInteger(iterations)
+      ) {
+        throw new Error("Invalid Argon2id parameters");
+      }
+      return;
+    }
+    default:
+      throw new Error(
+        `Unknown password KDF: ${(params as { algorithm: unknown }).algorithm}`,
+      );
+  }
+}
+
+/**
+ * Create the KDF described by parameters, for example read from a verifier
+ * record or received from the server.
+ * @throws Error if the parameters are invalid or too costly
+ */
+export function createPasswordKdf(params: PasswordKdfParams): PasswordKdf {
+  checkParams(params);
+  const copy = { ...params };
+  switch (copy.algorithm) {
+    case "PBKDF2":
+      return {
+        params: copy,
+        derive: (password, salt, length) =>
+          pbkdf2(password, salt, copy.iterations, copy.hash, length),
+      };
+    case "scrypt":
+      return {
+        params: copy,
+        async derive(password, salt, length) {
+          const { N, r, p } = copy;
+          const blocks = new Uint8Array(
+            await pbkdf2(password, salt, 1, "SHA-256", 128 * r * p),
+          );
+          for (let i = 0; i < p; i++) {
+            scryptROMix(blocks.subarray(128 * r * i, 128 * r * (i + 1)), N, r);
+          }
+          return pbkdf2(password, blocks.buffer, 1, "SHA-256", length);
+        },
+      };
+    case "argon2id":
+      return {
+        params: copy,
+        async derive(password, salt, length) {
+          return argon2id(new Uint8Array(password), new Uint8Array(salt), {
+            memoryKiB: copy.memoryKiB,
+            iterations: copy.iterations,
+            parallelism: copy.parallelism,
+            tagLength: length,
+          }).buffer as ArrayBuffer;
+        },
+      };
+  }
+}
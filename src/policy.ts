@@ -0,0 +1,256 @@
+import { PasswordKdfCostError, SRPPolicyError } from "./errors";
+import { SRPParameters } from "./parameters";
+import type { PasswordKdfParams } from "./password-kdf";
+
+/**
+ * Accepted costs of password KDF parameters received from the server. Too
+ * low, a malicious server gets a verifier that is cheap to attack offline,
+ * too high, it stalls the client.
+ */
+export interface PasswordKdfLimits {
+  minPbkdf2Iterations: number;
+  maxPbkdf2Iterations: number;
+  /**
+   * Smallest accepted scrypt N, which sets the memory use
+   */
+  minScryptN: number;
+  /**
+   * Accepted scrypt N * r * p, proportional to the running time
+   */
+  minScryptCost: number;
+  maxScryptCost: number;
+  minArgon2idMemoryKiB: number;
+  /**
+   * Accepted Argon2id memoryKiB * iterations, proportional to the running
+   * time
+   */
+  minArgon2idCost: number;
+  maxArgon2idCost: number;
+}
+
+export interface SRPSecurityPolicyOptions {
+  /**
+   * Smallest accepted size of N in bits
+   */
+  minGroupBits: number;
+  /**
+   * Names of the accepted hash functions in SRPParameters.H
+   */
+  allowedHashes: string[];
+  /**
+   * Accept hash functions that aren't in SRPParameters.H, false if not set
+   */
+  allowCustomHashes?: boolean;
+  /**
+   * Smallest accepted size of generated salts in bytes
+   */
+  minSaltBytes: number;
+  /**
+   * Smallest accepted bit length of the private values a and b. Private
+   * values are reduced mod N, so this should stay well below the group size.
+   */
+  minPrivateValueBits: number;
+  /**
+   * Accepted costs of password KDF parameters sent by the server, those of
+   * SRPSecurityPolicy.STRICT if not set
+   */
+  passwordKdf?: PasswordKdfLimits;
+}
+
+/**
+ * Minimum requirements on the parameters and values used by SRPRoutines,
+ * createVerifierAndSalt and the session classes. Violations throw an
+ * SRPPolicyError.
+ */
+export class SRPSecurityPolicy implements SRPSecurityPolicyOptions {
+  /**
+   * Default, for new deployments: groups of 2048 bits or more, SHA-2 hashes
+   * of 256 bits or more.
+   */
+  public static STRICT: SRPSecurityPolicy;
+
+  /**
+   * For interoperability with existing deployments and the RFC 5054 test
+   * vectors: groups of 1024 bits or more, SHA-1 and custom hash functions.
+   */
+  public static LEGACY: SRPSecurityPolicy;
+
+  public readonly minGroupBits: number;
+
+  public readonly allowedHashes: string[];
+
+  public readonly allowCustomHashes: boolean;
+
+  public readonly minSaltBytes: number;
+
+  public readonly minPrivateValueBits: number;
+
+  public readonly passwordKdf: PasswordKdfLimits;
+
+  constructor(options: SRPSecurityPolicyOptions) {
+    this.minGroupBits = options.minGroupBits;
+    this.allowedHashes = [...options.allowedHashes];
+    this.allowCustomHashes = options.allowCustomHashes ?? false;
+    this.minSaltBytes = options.minSaltBytes;
+    this.minPrivateValueBits = options.minPrivateValueBits;
+    this.passwordKdf = {
+      ...(options.passwordKdf ?? STRICT_PASSWORD_KDF_LIMITS),
+    };
+  }
+
+  /**
+   * @throws SRPPolicyError if the group is too small or the hash function
+   *         isn't allowed, custom ones only with allowCustomHashes
+   */
+  public checkParameters(parameters: SRPParameters): void {
+    if (parameters.NBits < this.minGroupBits) {
+      throw new SRPPolicyError(
+        `Prime group of ${parameters.NBits} bits is below the minimum of ${this.minGroupBits} bits${POLICY_HINT}`,
+      );
+    }
+    const hashName = Object.keys(SRPParameters.H).find(
+      (key) => SRPParameters.H[key] === parameters.H,
+    );
+    const allowed =
+      hashName === undefined
+        ? this.allowCustomHashes
+        : this.allowedHashes.includes(hashName);
+    if (!allowed) {
+      throw new SRPPolicyError(
+        `Hash function ${hashName ?? "(custom)"} is not allowed, expected one of: ${this.allowedHashes.join(", ")}${POLICY_HINT}`,
+      );
+    }
+  }
+
+  /**
+   * @throws SRPPolicyError if the salt is too short
+   */
+  public checkSaltBytes(saltBytes: number): void {
+    if (saltBytes < this.minSaltBytes) {
+      throw new SRPPolicyError(
+        `Salt of ${saltBytes} bytes is below the minimum of ${this.minSaltBytes} bytes`,
+      );
+    }
+  }
+
+  /**
+   * @throws SRPPolicyError if the private value is too small
+   */
+  public checkPrivateValue(value: bigint): void {
+    const bits = value > BigInt(0) ? value.toString(2).length : 0;
+    if (bits < this.minPrivateValueBits) {
+      throw new SRPPolicyError(
+        `Private value of ${bits} bits is below the minimum of ${this.minPrivateValueBits} bits`,
+      );
+    }
+  }
+
+  /**
+   * @throws PasswordKdfCostError if the costs of the password KDF parameters
+   *         are out of the accepted ranges
+   */
+  public checkPasswordKdf(params: PasswordKdfParams): void {
+    const limits = this.passwordKdf;
+    const check = (
+      description: string,
+      value: number,
+      min: number,
+      max: number,
+    ) => {
+      if (!(value >= min && value <= max)) {
+        throw new PasswordKdfCostError(
+          `${params.algorithm} ${description} of ${value} is out of the accepted range [${min}, ${max}]`,
+        );
+      }
+    };
+    switch (params.algorithm) {
+      case "PBKDF2":
+        check(
+          "iterations",
+          params.iterations,
+          limits.minPbkdf2Iterations,
+          limits.maxPbkdf2Iterations,
+        );
+        return;
+      case "scrypt":
+        check("N", params.N, limits.minScryptN, Infinity);
+        check(
+          "cost N * r * p",
+          params.N * params.r * params.p,
+          limits.minScryptCost,
+          limits.maxScryptCost,
+        );
+        return;
+      case "argon2id":
+        check(
+          "memory",
+          params.memoryKiB,
+          limits.minArgon2idMemoryKiB,
+          Infinity,
+        );
+        check(
+          "cost memoryKiB * iterations",
+          params.memoryKiB * params.iterations,
+          limits.minArgon2idCost,
+          limits.maxArgon2idCost,
+        );
+        return;
+    }
+  }
+}
+
+const POLICY_HINT =
+  " (SRPSecurityPolicy.STRICT is the default, see SRPSecurityPolicy.LEGACY)";
+
+/**
+ * Around half the costs of PASSWORD_KDF_DEFAULTS and the other OWASP
+ * recommendations at least, some seconds on the client at most.
+ */
+const STRICT_PASSWORD_KDF_LIMITS: PasswordKdfLimits = {
+  minPbkdf2Iterations: 100000,
+  maxPbkdf2Iterations: 10000000,
+  minScryptN: 2 ** 13,
+  minScryptCost: 2 ** 19,
+  maxScryptCost: 2 ** 24,
+  minArgon2idMemoryKiB: 7 * 1024,
+  minArgon2idCost: 2 ** 15,
+  maxArgon2idCost: 2 ** 22,
+};
+
+SRPSecurityPolicy.STRICT = new SRPSecurityPolicy({
+  minGroupBits: 2048,
+  allowedHashes: [
+    "SHA256",
+    "SHA384",
+    "SHA512",
+    "SHA3_256",
+    "SHA3_512",
+    "BLAKE2b",
+  ],
+  minSaltBytes: 16,
+  minPrivateValueBits: 256,
+});
+
+SRPSecurityPolicy.LEGACY = new SRPSecurityPolicy({
+  minGroupBits: 1024,
+  allowedHashes: [
+    "SHA1",
+    "SHA256",
+    "SHA384",
+    "SHA512",
+    "SHA3_256",
+    "SHA3_512",
+    "BLAKE2b",
+  ],
+  allowCustomHashes: true,
+  minSaltBytes: 8,
+  minPrivateValueBits: 128,
+  passwordKdf: {
+    ...STRICT_PASSWORD_KDF_LIMITS,
+    minPbkdf2Iterations: 1000,
+    minScryptN: 2 ** 10,
+    minScryptCost: 2 ** 14,
+    minArgon2idMemoryKiB: 1024,
+    minArgon2idCost: 2 ** 12,
+  },
+});
@@ -0,0 +1,284 @@
+import { PrimeGroup, SRPParameters } from "./parameters";
+import { generateRandomBigInt, modPow } from "./utils";
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const THREE = BigInt(3);
+
+export interface PrimeGroupValidationOptions {
+  /**
+   * Smallest accepted size of N in bits, 2048 if not set
+   */
+  minBits?: number;
+  /**
+   * Miller-Rabin rounds with random bases, 32 if not set. A composite passes
+   * with probability at most 4^-rounds.
+   */
+  rounds?: number;
+}
+
+export interface PrimeGroupReport {
+  /**
+   * True if no check failed, see errors otherwise
+   */
+  valid: boolean;
+  bits: number;
+  isPrime: boolean;
+  /**
+   * N and q = (N - 1) / 2 are both prime
+   */
+  isSafePrime: boolean;
+  /**
+   * Order of the subgroup generated by g, only known for safe primes
+   */
+  generatorOrder?: "q" | "2q";
+  /**
+   * The number theoretic results come from the cache of built-in groups
+   */
+  cached: boolean;
+  errors: string[];
+}
+
+type GroupFacts = Pick<
+  PrimeGroupReport,
+  "isPrime" | "isSafePrime" | "generatorOrder"
+>;
+
+const SMALL_PRIMES: bigint[] = [];
+for (let n = 2; n < 1000; n++) {
+  if (SMALL_PRIMES.every((p) => n % Number(p) !== 0)) {
+    SMALL_PRIMES.push(BigInt(n));
+  }
+}
+
+/**
+ * Trial division by the primes below 1000, undefined if undecided.
+ */
+function trialDivision(n: bigint): boolean | undefined {
+  if (n < TWO) {
+    return false;
+  }
+  for (const p of SMALL_PRIMES) {
+    if (n === p) {
+      return true;
+    }
+    if (n % p === ZERO) {
+      return false;
+    }
+  }
+  return undefined;
+}
+
+async function millerRabin(n: bigint, rounds: number): Promise<boolean> {
+  let d = n - ONE;
+  let r = 0;
+  while (d % TWO === ZERO) {
+    d /= TWO;
+    r++;
+  }
+  const baseBytes = Math.ceil(n.toString(16).length / 2) + 8;
+  for (let round = 0; round < rounds; round++) {
+    // base in [2, n - 2]
+    const a = ((await generateRandomBigInt(baseBytes)) % (n - THREE)) + TWO;
+    let x = modPow(a, d, n);
+    if (x === ONE || x === n - ONE) {
+      continue;
+    }
+    let witness = true;
+    for (let i = 1; i < r && witness; i++) {
+      x = (x * x) % n;
+      witness = x !== n - ONE;
+    }
+    if (witness) {
+      return false;
+    }
+  }
+  return true;
+}
+
+const isProbablePrime = async (n: bigint, rounds: number) =>
+  trialDivision(n) ?? millerRabin(n, rounds);
+
+async function computeFacts(
+  { N, g }: PrimeGroup,
+  rounds: number,
+): Promise<GroupFacts> {
+  const q = (N - ONE) / TWO;
+  if (N % TWO === ZERO || !(await isProbablePrime(q, rounds))) {
+    return { isPrime: await isProbablePrime(N, rounds), isSafePrime: false };
+  }
+  // With q prime, N = 2q + 1 is prime iff 3^(N - 1) = 1 (mod N), by
+  // Pocklington's criterion: gcd(3^2 - 1, N) = 1 since N is odd
+  const isPrime = trialDivision(N) ?? modPow(THREE, N - ONE, N) === ONE;
+  if (!isPrime) {
+    return { isPrime, isSafePrime: false };
+  }
+  // the subgroups of a safe prime have order 1, 2, q or 2q
+  const generatorOrder =
+    g > ONE && g < N - ONE ? (modPow(g, q, N) === ONE ? "q" : "2q") : undefined;
+  return { isPrime, isSafePrime: true, generatorOrder };
+}
+
+const builtInFacts = new Map<PrimeGroup, GroupFacts>();
+
+const findBuiltIn = ({ N, g }: PrimeGroup): PrimeGroup | undefined =>
+  Object.values(SRPParameters.NamedPrimeGroup).find(
+    (group) => group.N === N && group.g === g,
+  );
+
+/**
+ * Check that N is a safe prime, that g generates a subgroup of order q or 2q
+ * where q = (N - 1) / 2, and that N has at least minBits bits. Results for the
+ * groups of SRPParameters.NamedPrimeGroup are cached.
+ *
+ * Testing a group that isn't built-in takes a while for 4096 bits and more.
+ * @param group - Prime group to check
+ * @param options - See PrimeGroupValidationOptions
+ */
+export async function validatePrimeGroup(
+  group: PrimeGroup,
+  options: PrimeGroupValidationOptions = {},
+): Promise<PrimeGroupReport> {
+  const { minBits = 2048, rounds = 32 } = options;
+  if (!Number.isInteger(rounds) || rounds < 1) {
+    throw new Error(`Invalid number of rounds: ${rounds}`);
+  }
+  const { N, g } = group;
+  const bits = N > ZERO ? N.toString(2).length : 0;
+
+  const builtIn = findBuiltIn(group);
+  let facts = builtIn && builtInFacts.get(builtIn);
+  const cached = facts !== undefined;
+  if (!facts) {
+    facts = await computeFacts(group, rounds);
+    if (builtIn) {
+      builtInFacts.set(builtIn, facts);
+    }
+  }
+
+  const errors: string[] = [];
+  if (bits < minBits) {
+    errors.push(`N has ${bits} bits, at least ${minBits} are required`);
+  }
+  if (!facts.isPrime) {
+    errors.push("N is not prime");
+  } else if (!facts.isSafePrime) {
+    errors.push("N is not a safe prime");
+  } else if (!facts.generatorOrder) {
+    errors.push("g must be between 1 and N - 1 exclusive");
+  }
+
+  return {
+    valid: errors.length === 0,
+    bits,
+    ...facts,
+    cached,
+    errors,
+  };
+}
+
+export interface PrimeGroupGenerationProgress {
+  /**
+   * Requested size of N in bits
+   */
+  bits: number;
+  /**
+   * Number of candidates tried so far, including the current one
+   */
+  candidates: number;
+}
+
+export interface PrimeGroupGenerationOptions {
+  /**
+   * Called before each candidate is tested, return false to cancel the
+   * search. generatePrimeGroup then rejects.
+   */
+  onProgress?: (progress: PrimeGroupGenerationProgress) => boolean | void;
+  /**
+   * Miller-Rabin rounds for q, see PrimeGroupValidationOptions
+   */
+  rounds?: number;
+  /**
+   * Cancels the search when aborted, generatePrimeGroup then rejects
+   */
+  signal?: AbortSignal;
+  /**
+   * Give up after this many candidates, unlimited if not set
+   */
+  maxCandidates?: number;
+}
+
+/**
+ * Candidates tested between two yields to the event loop
+ */
+const CANDIDATES_PER_YIELD = 64;
+
+const yieldToEventLoop = (): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Search for a random safe prime N = 2q + 1 of the given size, with g the
+ * smallest primitive root mod N. The search takes about a minute for 1024
+ * bits and much longer for larger groups, use onProgress to follow it and
+ * signal, onProgress or maxCandidates to stop it. The search yields to the
+ * event loop regularly, so timers and I/O keep running.
+ * @param bits - Size of N in bits
+ * @param options - See PrimeGroupGenerationOptions
+ * @throws Error if cancelled through signal or onProgress, or if no group was
+ *         found in maxCandidates candidates
+ */
+export async function generatePrimeGroup(
+  bits: number,
+  options: PrimeGroupGenerationOptions = {},
+): Promise<PrimeGroup> {
+  const { onProgress, rounds = 32, signal, maxCandidates = Infinity } = options;
+  if (!Number.isInteger(bits) || bits < 16) {
+    throw new Error(`Invalid prime group size: ${bits}`);
+  }
+  if (!Number.isInteger(rounds) || rounds < 1) {
+    throw new Error(`Invalid number of rounds: ${rounds}`);
+  }
+  if (!(maxCandidates >= 1)) {
+    throw new Error(`Invalid maximum number of candidates: ${maxCandidates}`);
+  }
+  // q has the top bit set so that N has exactly the requested size
+  const qBits = BigInt(bits - 1);
+  const qMask = (ONE << qBits) - ONE;
+  const qTopBit = ONE << (qBits - ONE);
+  const qBytes = Math.ceil((bits - 1) / 8);
+
+  for (let candidates = 1; ; candidates++) {
+    if (candidates % CANDIDATES_PER_YIELD === 0) {
+      await yieldToEventLoop();
+    }
+    if (signal?.aborted || onProgress?.({ bits, candidates }) === false) {
+      throw new Error("Prime group generation cancelled");
+    }
+    if (candidates > maxCandidates) {
+      throw new Error(
+        `No safe prime of ${bits} bits found in ${maxCandidates} candidates`,
+      );
+    }
+    const q = ((await generateRandomBigInt(qBytes)) & qMask) | qTopBit | ONE;
+    const N = TWO * q + ONE;
+    if (trialDivision(q) === false || trialDivision(N) === false) {
+      continue;
+    }
+    // cheap tests first, most candidates fail one of them
+    if (
+      !(await millerRabin(q, 1)) ||
+      modPow(THREE, N - ONE, N) !== ONE ||
+      !(await millerRabin(q, rounds))
+    ) {
+      continue;
+    }
+    // N is prime by Pocklington's criterion, see computeFacts. g is a
+    // primitive root iff g^q != 1, as g^2 != 1 for 1 < g < N - 1
+    let g = TWO;
+    while (modPow(g, q, N) === ONE) {
+      g++;
+    }
+    return { N, g };
+  }
+}
@@ -0,0 +1,164 @@
+import { COGNITO_PARAMETERS, CognitoRoutines } from "./cognito";
+import { HOMEKIT_PARAMETERS, HomeKitRoutines } from "./homekit";
+import { SRPParameters } from "./parameters";
+import { SRPSecurityPolicy } from "./policy";
+import { RFC5054Routines } from "./rfc5054-routines";
+import {
+  NIMBUS_PADDING,
+  SRPKeyDerivation,
+  SRPPadding,
+  SRPRoutines,
+  SRPRoutinesOptions,
+} from "./routines";
+
+/**
+ * Profiles bundle everything two peers must agree on besides the
+ * credentials, so that the peer can be chosen by name, for example from a
+ * configuration file or a verifier record.
+ */
+
+export type SRPProfileName =
+  | "nimbus"
+  | "rfc5054"
+  | "homekit"
+  | "cognito"
+  | "tssrp6a-legacy";
+
+export interface SRPProfileOptions extends SRPRoutinesOptions {
+  /**
+   * User pool of the cognito profile, like "eu-west-1_AbCdEf123"
+   */
+  userPoolId?: string;
+  /**
+   * Group and hash of the verifiers for the tssrp6a-legacy profile, the
+   * defaults of earlier releases if not set. Other profiles fix them.
+   */
+  parameters?: SRPParameters;
+}
+
+export interface SRPProfile {
+  readonly name: SRPProfileName;
+  readonly parameters: SRPParameters;
+  /**
+   * Policy of the routines unless the options set one
+   */
+  readonly policy: SRPSecurityPolicy;
+  /**
+   * Padding used by the routines in k and u
+   */
+  readonly padding: SRPPadding;
+  /**
+   * Key derivation of the sessions using the routines
+   */
+  readonly keyDerivation: SRPKeyDerivation;
+  /**
+   * Routines of the profile, recording its name for createVerifierAndSalt
+   */
+  createRoutines(options?: SRPProfileOptions): SRPRoutines;
+}
+
+interface ProfileDefinition {
+  name: SRPProfileName;
+  parameters: SRPParameters;
+  policy: SRPSecurityPolicy;
+  padding?: SRPPadding;
+  keyDerivation?: SRPKeyDerivation;
+  /**
+   * Whether the parameters option may replace the parameters
+   */
+  customParameters?: boolean;
+  create?: (
+    parameters: SRPParameters,
+    options: SRPRoutinesOptions & Pick<SRPProfileOptions, "userPoolId">,
+  ) => SRPRoutines;
+}
+
+const profile = ({
+  name,
+  parameters,
+  policy,
+  padding = NIMBUS_PADDING,
+  keyDerivation = "hkdf",
+  customParameters = false,
+  create = (parameters, options) => new SRPRoutines(parameters, options),
+}: ProfileDefinition): SRPProfile => ({
+  name,
+  parameters,
+  policy,
+  padding,
+  keyDerivation,
+  createRoutines: (options = {}) => {
+    const { parameters: custom, ...routinesOptions } = options;
+    if (custom && !customParameters) {
+      throw new Error(`The ${name} profile doesn't accept parameters`);
+    }
+    return create(custom ?? parameters, {
+      policy,
+      padding,
+      keyDerivation,
+      ...routinesOptions,
+      profile: name,
+    });
+  },
+});
+
+export const SRP_PROFILES: Record<SRPProfileName, SRPProfile> = {
+  nimbus: profile({
+    name: "nimbus",
+    parameters: new SRPParameters(),
+    policy: SRPSecurityPolicy.STRICT,
+  }),
+  // RFC 5054 is specified with SHA-1, which STRICT rejects
+  rfc5054: profile({
+    name: "rfc5054",
+    parameters: new SRPParameters(
+      SRPParameters.getPrimeGroup("rfc5054-2048"),
+      SRPParameters.H.SHA1,
+    ),
+    policy: SRPSecurityPolicy.LEGACY,
+    create: (parameters, options) => new RFC5054Routines(parameters, options),
+  }),
+  homekit: profile({
+    name: "homekit",
+    parameters: HOMEKIT_PARAMETERS,
+    policy: SRPSecurityPolicy.STRICT,
+    create: (parameters, options) => new HomeKitRoutines(parameters, options),
+  }),
+  // N, g, A and B are hashed as signed integers, see CognitoRoutines
+  cognito: profile({
+    name: "cognito",
+    parameters: COGNITO_PARAMETERS,
+    policy: SRPSecurityPolicy.STRICT,
+    padding: { k: false, u: false },
+    create: (parameters, options) => {
+      const { userPoolId, ...routinesOptions } = options;
+      if (!userPoolId) {
+        throw new Error("The cognito profile requires the userPoolId option");
+      }
+      return new CognitoRoutines(userPoolId, parameters, routinesOptions);
+    },
+  }),
+  // verifiers and session keys of tssrp6a before the security policy and the
+  // key schedule, which let the group and hash be chosen
+  "tssrp6a-legacy": profile({
+    name: "tssrp6a-legacy",
+    parameters: new SRPParameters(),
+    policy: SRPSecurityPolicy.LEGACY,
+    keyDerivation: "raw",
+    customParameters: true,
+  }),
+};
+
+/**
+ * @throws Error if the name is not one of SRP_PROFILES
+ */
+export function getProfile(name: string): SRPProfile {
+  if (!Object.prototype.hasOwnProperty.call(SRP_PROFILES, name)) {
+    throw new Error(
+      `Unknown SRP profile "${name}", expected one of: ${Object.keys(
+        SRP_PROFILES,
+      ).join(", ")}`,
+    );
+  }
+  return SRP_PROFILES[name as SRPProfileName];
+}
@@ -0,0 +1,86 @@
+import { SRPRoutines } from "./routines";
+import {
+  hashBitCount,
+  padStartArrayBuffer,
+  stringToArrayBuffer,
+} from "./utils";
+
+/**
+ * Routines following RFC 5054 and RFC 2945, to talk to standard SRP
+ * implementations (GnuTLS, the Python srp package in RFC 5054 mode, Go SRP
+ * libraries):
+ *
+ * - x = H(s | H(I ":" P))
+ * - K = H(S)
+ * - M1 = H(H(N) xor H(PAD(g)) | H(I) | s | A | B | K)
+ * - M2 = H(A | M1 | K)
+ *
+ * k = H(N | PAD(g)) and u = H(PAD(A) | PAD(B)) are the same as in
+ * SRPRoutines.
+ */
+export class RFC5054Routines extends SRPRoutines {
+  public computeIdentityHash(I: string, P: string): Promise<ArrayBuffer> {
+    return this.hash(stringToArrayBuffer(`${I}:${P}`));
+  }
+
+  /**
+   * H(N) xor H(PAD(g)) of the client evidence
+   */
+  public async computeGroupHash(): Promise<ArrayBuffer> {
+    const { N, g } = this.parameters.primeGroup;
+    const NBytes = this.backend.toBytes(N);
+    const HN = new Uint8Array(await this.hash(NBytes));
+    const Hg = new Uint8Array(
+      await this.hash(
+        padStartArrayBuffer(this.backend.toBytes(g), NBytes.byteLength),
+      ),
+    );
+    return HN.map((byte, i) => byte ^ Hg[i]).buffer;
+  }
+
+  /**
+   * Bytes of "A" or "B" as hashed into the evidence messages, without leading
+   * zero bytes.
+   */
+  public publicValueToArrayBuffer(value: bigint): ArrayBuffer {
+    return this.backend.toBytes(value);
+  }
+
+  public async computeClientEvidence(
+    I: string,
+    s: bigint,
+    A: bigint,
+    B: bigint,
+    S: bigint,
+  ): Promise<bigint> {
+    return this.backend.fromBytes(
+      await this.hash(
+        await this.computeGroupHash(),
+        await this.hash(stringToArrayBuffer(I)),
+        this.saltToArrayBuffer(s),
+        this.publicValueToArrayBuffer(A),
+        this.publicValueToArrayBuffer(B),
+        await this.computeSharedKey(S),
+      ),
+    );
+  }
+
+  public async computeServerEvidence(
+    A: bigint,
+    M1: bigint,
+    S: bigint,
+  ): Promise<bigint> {
+    // M1 is a digest, keep its leading zero bytes
+    const M1Bytes = padStartArrayBuffer(
+      this.backend.toBytes(M1),
+      (await hashBitCount(this.parameters)) / 8,
+    );
+    return this.backend.fromBytes(
+      await this.hash(
+        this.publicValueToArrayBuffer(A),
+        M1Bytes,
+        await this.computeSharedKey(S),
+      ),
+    );
+  }
+}
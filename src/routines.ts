@@ -1,12 +1,24 @@
+import { BigIntBackend, nativeBackend } from "./bigint-backend";
+import { constantTimeEqualBigInt } from "./constant-time";
+import {
+  PublicValueRangeError,
+  PublicValueSubgroupError,
+  ScramblingParameterError,
+  SRPValidationError,
+} from "./errors";
 import type { SRPParameters } from "./parameters";
 import {
-  arrayBufferToBigInt,
-  bigIntToArrayBuffer,
+  createPasswordKdf,
+  PasswordKdf,
+  PasswordKdfParams,
+} from "./password-kdf";
+import { SRPSecurityPolicy } from "./policy";
+import type { SRPProfileName } from "./profiles";
+import {
   generateRandomBigInt,
   hash,
   hashBitCount,
   hashPadded,
-  modPow,
   stringToArrayBuffer,
 } from "./utils";
 
@@ -19,8 +31,87 @@ import {
  * https://bitbucket.org/connect2id/nimbus-srp/src/c88fec8a6dcd46dacf1e031b52f9bffca902acf4/src/main/java/com/nimbusds/srp6/SRP6Routines.java
  */
 
+/**
+ * Whether values are padded to the length of N where they are hashed.
+ */
+export interface SRPPadding {
+  /**
+   * g in k = H(N | PAD(g))
+   */
+  k: boolean;
+  /**
+   * A and B in u = H(PAD(A) | PAD(B))
+   */
+  u: boolean;
+}
+
+export const NIMBUS_PADDING: SRPPadding = { k: true, u: true };
+
+/**
+ * How the sessions turn the premaster secret "S" into the keys of
+ * encrypt/decrypt:
+ *
+ * - "hkdf": deriveSessionKeys, bound to A, B and s
+ * - "raw": one key for both directions from "S" alone, the key of `encrypt`
+ *   given "S", labels and context are ignored
+ */
+export type SRPKeyDerivation = "hkdf" | "raw";
+
+export interface SRPRoutinesOptions {
+  /**
+   * SRPSecurityPolicy.STRICT if not set
+   */
+  policy?: SRPSecurityPolicy;
+  /**
+   * Password hardening applied by computeX, none if not set
+   */
+  passwordKdf?: PasswordKdf;
+  /**
+   * Name of the profile creating the routines, see getProfile
+   */
+  profile?: SRPProfileName;
+  /**
+   * Big integer arithmetic, nativeBackend if not set
+   */
+  backend?: BigIntBackend;
+  /**
+   * NIMBUS_PADDING if not set
+   */
+  padding?: SRPPadding;
+  /**
+   * Key derivation of the sessions, "hkdf" if not set
+   */
+  keyDerivation?: SRPKeyDerivation;
+}
+
 export class SRPRoutines {
-  constructor(public readonly parameters: SRPParameters) {}
+  public readonly policy: SRPSecurityPolicy;
+
+  public readonly passwordKdf?: PasswordKdf;
+
+  public readonly profile?: SRPProfileName;
+
+  public readonly backend: BigIntBackend;
+
+  public readonly padding: SRPPadding;
+
+  public readonly keyDerivation: SRPKeyDerivation;
+
+  /**
+   * @throws SRPPolicyError if the parameters don't satisfy the policy
+   */
+  constructor(
+    public readonly parameters: SRPParameters,
+    options: SRPRoutinesOptions = {},
+  ) {
+    this.policy = options.policy ?? SRPSecurityPolicy.STRICT;
+    this.policy.checkParameters(parameters);
+    this.passwordKdf = options.passwordKdf;
+    this.profile = options.profile;
+    this.backend = options.backend ?? nativeBackend;
+    this.padding = options.padding ?? NIMBUS_PADDING;
+    this.keyDerivation = options.keyDerivation ?? "hkdf";
+  }
 
   public hash(...as: ArrayBuffer[]): Promise<ArrayBuffer> {
     return hash(this.parameters, ...as);
@@ -32,11 +123,12 @@ export class SRPRoutines {
   }
 
   public async computeK(): Promise<bigint> {
-    return arrayBufferToBigInt(
-      await this.hashPadded(
-        bigIntToArrayBuffer(this.parameters.primeGroup.N),
-        bigIntToArrayBuffer(this.parameters.primeGroup.g),
-      ),
+    const { N, g } = this.parameters.primeGroup;
+    const values = [this.backend.toBytes(N), this.backend.toBytes(g)];
+    return this.backend.fromBytes(
+      await (this.padding.k
+        ? this.hashPadded(...values)
+        : this.hash(...values)),
     );
   }
 
@@ -45,37 +137,57 @@ export class SRPRoutines {
     // Recommended salt bytes is > than Hash output bytes. We default to twice
     // the bytes used by the hash
     const saltBytes = numBytes || (2 * HBits) / 8;
+    this.policy.checkSaltBytes(saltBytes);
     return generateRandomBigInt(saltBytes);
   }
 
+  /**
+   * Salt bytes as hashed into x, without leading zero bytes.
+   */
+  public saltToArrayBuffer(s: bigint): ArrayBuffer {
+    return this.backend.toBytes(s);
+  }
+
   public async computeX(I: string, s: bigint, P: string): Promise<bigint> {
-    return arrayBufferToBigInt(
-      await this.hash(
-        bigIntToArrayBuffer(s),
-        await this.computeIdentityHash(I, P),
-      ),
-    );
+    return this.computeXStep2(s, await this.computeIdentityHash(I, P));
   }
 
+  /**
+   * @param kdfParams - Password KDF of the verifier record, overrides the
+   *                    passwordKdf of the routines
+   * @throws PasswordKdfCostError if the costs of kdfParams, which may come
+   *         from the server, are out of the ranges of the policy
+   */
   public async computeXStep2(
     s: bigint,
     identityHash: ArrayBuffer,
+    kdfParams?: PasswordKdfParams,
   ): Promise<bigint> {
-    return arrayBufferToBigInt(
-      await this.hash(bigIntToArrayBuffer(s), identityHash),
-    );
+    let kdf = this.passwordKdf;
+    if (kdfParams) {
+      kdf = createPasswordKdf(kdfParams);
+      this.policy.checkPasswordKdf(kdf.params);
+    }
+    const salt = this.saltToArrayBuffer(s);
+    const secret = kdf
+      ? await kdf.derive(identityHash, salt, identityHash.byteLength)
+      : identityHash;
+    return this.backend.fromBytes(await this.hash(salt, secret));
   }
 
   public async computeIdentityHash(_: string, P: string): Promise<ArrayBuffer> {
     return await this.hash(stringToArrayBuffer(P));
   }
 
+  /**
+   * g^pow (mod N)
+   */
+  public generatorPow(pow: bigint): bigint {
+    return this.backend.generatorPow(this.parameters, pow);
+  }
+
   public computeVerifier(x: bigint): bigint {
-    return modPow(
-      this.parameters.primeGroup.g,
-      x,
-      this.parameters.primeGroup.N,
-    );
+    return this.generatorPow(x);
   }
 
   public async generatePrivateValue(): Promise<bigint> {
@@ -92,20 +204,104 @@ export class SRPRoutines {
   }
 
   public computeClientPublicValue(a: bigint): bigint {
-    return modPow(
-      this.parameters.primeGroup.g,
-      a,
-      this.parameters.primeGroup.N,
+    return this.generatorPow(a);
+  }
+
+  /**
+   * g^q = 1 (mod N) where q = (N - 1) / 2: g is a quadratic residue, and so
+   * are all the values it generates.
+   */
+  private generatorIsResidue?: boolean;
+
+  private checkSubgroup(value: bigint, description: string): void {
+    const { N, g } = this.parameters.primeGroup;
+    const ONE = BigInt(1);
+    if (value === BigInt(0) || value === ONE || value === N - ONE) {
+      throw new PublicValueSubgroupError(`${description}, of order 0, 1 or 2`);
+    }
+    const q = (N - ONE) / BigInt(2);
+    if (this.generatorIsResidue === undefined) {
+      this.generatorIsResidue = this.backend.modPow(g, q, N) === ONE;
+    }
+    if (this.generatorIsResidue && this.backend.modPow(value, q, N) !== ONE) {
+      throw new PublicValueSubgroupError(
+        `${description}, not in the subgroup generated by g`,
+      );
+    }
+  }
+
+  /**
+   * Check a public value received from the peer. With a value that isn't in
+   * [1, N - 1] or has order 1 or 2, the peer could force "S" into a few known
+   * values. "A" must also be in the subgroup generated by g, while "B" = kv +
+   * g^b is checked by checkServerBase.
+   * @param name - "A" received by the server, "B" received by the client
+   * @throws PublicValueRangeError if the value isn't in [1, N - 1]
+   * @throws PublicValueSubgroupError if the value is 1 or N - 1, or "A" isn't
+   * in the subgroup generated by g
+   */
+  public checkPublicValue(value: bigint, name: "A" | "B"): void {
+    const N = this.parameters.primeGroup.N;
+    const description = `Invalid ${
+      name === "A" ? "Client" : "Server"
+    } public value (${name}): ${value.toString(16)}`;
+    if (value < BigInt(1) || value >= N) {
+      throw new PublicValueRangeError(`${description}, not in [1, N - 1]`);
+    }
+    if (name === "A") {
+      this.checkSubgroup(value, description);
+    } else if (value === BigInt(1) || value === N - BigInt(1)) {
+      throw new PublicValueSubgroupError(`${description}, of order 1 or 2`);
+    }
+  }
+
+  /**
+   * Check that the base B - kg^x of "S" on the client, g^b for an honest
+   * server, is in the subgroup generated by g. A server choosing B = kv
+   * would make "S" zero.
+   * @throws PublicValueSubgroupError if it isn't
+   */
+  public checkServerBase(B: bigint, k: bigint, x: bigint): void {
+    const N = this.parameters.primeGroup.N;
+    this.checkSubgroup(
+      (B + N - this.backend.modMul(this.generatorPow(x), k, N)) % N,
+      `Invalid Server public value (B): ${B.toString(16)}`,
     );
   }
 
+  /**
+   * Whether checkPublicValue accepts the value as "A".
+   */
   public isValidPublicValue(value: bigint): boolean {
-    return value % this.parameters.primeGroup.N !== BigInt(0);
+    try {
+      this.checkPublicValue(value, "A");
+      return true;
+    } catch (error) {
+      if (error instanceof SRPValidationError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @throws ScramblingParameterError if "u" is zero (mod N), which would make
+   * "S" independent of the password
+   */
+  public checkScramblingParameter(u: bigint): void {
+    if (u % this.parameters.primeGroup.N === BigInt(0)) {
+      throw new ScramblingParameterError(
+        `Invalid scrambling parameter (u): ${u.toString(16)}`,
+      );
+    }
   }
 
   public async computeU(A: bigint, B: bigint): Promise<bigint> {
-    return arrayBufferToBigInt(
-      await this.hashPadded(bigIntToArrayBuffer(A), bigIntToArrayBuffer(B)),
+    const values = [this.backend.toBytes(A), this.backend.toBytes(B)];
+    return this.backend.fromBytes(
+      await (this.padding.u
+        ? this.hashPadded(...values)
+        : this.hash(...values)),
     );
   }
 
@@ -116,11 +312,11 @@ export class SRPRoutines {
     B: bigint,
     S: bigint,
   ): Promise<bigint> {
-    return arrayBufferToBigInt(
+    return this.backend.fromBytes(
       await this.hash(
-        bigIntToArrayBuffer(A),
-        bigIntToArrayBuffer(B),
-        bigIntToArrayBuffer(S),
+        this.backend.toBytes(A),
+        this.backend.toBytes(B),
+        this.backend.toBytes(S),
       ),
     );
   }
@@ -130,15 +326,37 @@ export class SRPRoutines {
     M1: bigint,
     S: bigint,
   ): Promise<bigint> {
-    return arrayBufferToBigInt(
+    return this.backend.fromBytes(
       await this.hash(
-        bigIntToArrayBuffer(A),
-        bigIntToArrayBuffer(M1),
-        bigIntToArrayBuffer(S),
+        this.backend.toBytes(A),
+        this.backend.toBytes(M1),
+        this.backend.toBytes(S),
       ),
     );
   }
 
+  /**
+   * Compare a received evidence message ("M1" or "M2") with the computed one
+   * in constant time, as encodings of the hash output length.
+   */
+  public async isEvidenceEqual(
+    computed: bigint,
+    received: bigint,
+  ): Promise<boolean> {
+    return constantTimeEqualBigInt(
+      computed,
+      received,
+      (await hashBitCount(this.parameters)) / 8,
+    );
+  }
+
+  /**
+   * Session key "K" = H(S) derived from the premaster secret "S"
+   */
+  public computeSharedKey(S: bigint): Promise<ArrayBuffer> {
+    return this.hash(this.backend.toBytes(S));
+  }
+
   public computeClientSessionKey(
     k: bigint,
     x: bigint,
@@ -148,8 +366,8 @@ export class SRPRoutines {
   ): bigint {
     const N = this.parameters.primeGroup.N;
     const exp = u * x + a;
-    const tmp = (modPow(this.parameters.primeGroup.g, x, N) * k) % N;
+    const tmp = this.backend.modMul(this.generatorPow(x), k, N);
 
-    return modPow(B + N - tmp, exp, N);
+    return this.backend.modPow(B + N - tmp, exp, N);
   }
 }
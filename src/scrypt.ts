@@ -0,0 +1,106 @@
+/**
+ * The memory hard part of scrypt (RFC 7914): Salsa20/8, BlockMix and ROMix.
+ * The PBKDF2 steps around it are in password-kdf.
+ */
+
+const rotl32 = (x: number, shift: number) =>
+  (x << shift) | (x >>> (32 - shift));
+
+/**
+ * Salsa20/8 core applied to the 16 words of b at offset, in place.
+ */
+function salsa208(b: Uint32Array, offset: number, x: Uint32Array) {
+  for (let i = 0; i < 16; i++) {
+    x[i] = b[offset + i];
+  }
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= rotl32(x[0] + x[12], 7);
+    x[8] ^= rotl32(x[4] + x[0], 9);
+    x[12] ^= rotl32(x[8] + x[4], 13);
+    x[0] ^= rotl32(x[12] + x[8], 18);
+    x[9] ^= rotl32(x[5] + x[1], 7);
+    x[13] ^= rotl32(x[9] + x[5], 9);
+    x[1] ^= rotl32(x[13] + x[9], 13);
+    x[5] ^= rotl32(x[1] + x[13], 18);
+    x[14] ^= rotl32(x[10] + x[6], 7);
+    x[2] ^= rotl32(x[14] + x[10], 9);
+    x[6] ^= rotl32(x[2] + x[14], 13);
+    x[10] ^= rotl32(x[6] + x[2], 18);
+    x[3] ^= rotl32(x[15] + x[11], 7);
+    x[7] ^= rotl32(x[3] + x[15], 9);
+    x[11] ^= rotl32(x[7] + x[3], 13);
+    x[15] ^= rotl32(x[11] + x[7], 18);
+    x[1] ^= rotl32(x[0] + x[3], 7);
+    x[2] ^= rotl32(x[1] + x[0], 9);
+    x[3] ^= rotl32(x[2] + x[1], 13);
+    x[0] ^= rotl32(x[3] + x[2], 18);
+    x[6] ^= rotl32(x[5] + x[4], 7);
+    x[7] ^= rotl32(x[6] + x[5], 9);
+    x[4] ^= rotl32(x[7] + x[6], 13);
+    x[5] ^= rotl32(x[4] + x[7], 18);
+    x[11] ^= rotl32(x[10] + x[9], 7);
+    x[8] ^= rotl32(x[11] + x[10], 9);
+    x[9] ^= rotl32(x[8] + x[11], 13);
+    x[10] ^= rotl32(x[9] + x[8], 18);
+    x[12] ^= rotl32(x[15] + x[14], 7);
+    x[13] ^= rotl32(x[12] + x[15], 9);
+    x[14] ^= rotl32(x[13] + x[12], 13);
+    x[15] ^= rotl32(x[14] + x[13], 18);
+  }
+  for (let i = 0; i < 16; i++) {
+    b[offset + i] += x[i];
+  }
+}
+
+/**
+ * scryptBlockMix of the 32 * r words of input into output.
+ */
+function blockMix(
+  input: Uint32Array,
+  output: Uint32Array,
+  r: number,
+  x: Uint32Array,
+  scratch: Uint32Array,
+) {
+  scratch.set(input.subarray((2 * r - 1) * 16, 2 * r * 16));
+  for (let i = 0; i < 2 * r; i++) {
+    for (let j = 0; j < 16; j++) {
+      scratch[j] ^= input[i * 16 + j];
+    }
+    salsa208(scratch, 0, x);
+    // even blocks go to the first half of the output, odd ones to the second
+    output.set(scratch, ((i >> 1) + (i & 1) * r) * 16);
+  }
+}
+
+/**
+ * scryptROMix of the 128 * r bytes block, in place.
+ */
+export function scryptROMix(block: Uint8Array, N: number, r: number): void {
+  const words = 32 * r;
+  const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  let current = Uint32Array.from({ length: words }, (_, i) =>
+    view.getUint32(4 * i, true),
+  );
+  let next = new Uint32Array(words);
+  const v = new Uint32Array(words * N);
+  const x = new Uint32Array(16);
+  const scratch = new Uint32Array(16);
+
+  for (let i = 0; i < N; i++) {
+    v.set(current, i * words);
+    blockMix(current, next, r, x, scratch);
+    [current, next] = [next, current];
+  }
+  for (let i = 0; i < N; i++) {
+    // Integerify, N is a power of 2 below 2^32
+    const j = current[words - 16] & (N - 1);
+    for (let k = 0; k < words; k++) {
+      current[k] ^= v[j * words + k];
+    }
+    blockMix(current, next, r, x, scratch);
+    [current, next] = [next, current];
+  }
+
+  current.forEach((word, i) => view.setUint32(4 * i, word, true));
+}
@@ -0,0 +1,329 @@
+import { AssociatedData, getAesGcm, toAdditionalData } from "./encryption";
+import {
+  MessageAuthenticationError,
+  OutOfOrderMessageError,
+  ReplayedMessageError,
+  SecureChannelError,
+} from "./errors";
+import { hkdfExpand } from "./key-schedule";
+import { SRPParameters } from "./parameters";
+import { stringToArrayBuffer } from "./utils";
+
+/**
+ * Messages start with their AES-GCM nonce: the 4 byte key generation and the
+ * 8 byte sequence number, both big endian.
+ */
+const GENERATION_BYTES = 4;
+const SEQUENCE_BYTES = 8;
+const HEADER_BYTES = GENERATION_BYTES + SEQUENCE_BYTES;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+/**
+ * Highest generation a receiver ratchets to in one message, the sender
+ * refuses to rekey further without sending.
+ */
+export const MAX_GENERATION_SKIP = 64;
+
+const REKEY_LABEL = "tssrp6a rekey";
+
+export const SECOND_CHANNEL_MESSAGE =
+  "Session already opened a secure channel, run a new handshake for another";
+
+export interface SecureChannelOptions {
+  /**
+   * Switch to the next key generation after sealing this many messages
+   */
+  rekeyAfterMessages?: number;
+  /**
+   * Switch to the next key generation after sealing this many plaintext bytes
+   */
+  rekeyAfterBytes?: number;
+}
+
+const messageNonce = (generation: number, sequence: number): ArrayBuffer => {
+  const nonce = new ArrayBuffer(HEADER_BYTES);
+  const view = new DataView(nonce);
+  view.setUint32(0, generation);
+  view.setBigUint64(GENERATION_BYTES, BigInt(sequence));
+  return nonce;
+};
+
+/**
+ * Next generation key: HKDF-Expand(key, "tssrp6a rekey") with the hash
+ * function of the session. The ratchet is one way, a key doesn't reveal the
+ * keys of earlier generations.
+ */
+const nextKey = (
+  parameters: SRPParameters,
+  key: ArrayBuffer,
+): Promise<ArrayBuffer> =>
+  hkdfExpand(parameters, key, stringToArrayBuffer(REKEY_LABEL), KEY_BYTES);
+
+const wipe = (key: ArrayBuffer) => new Uint8Array(key).fill(0);
+
+const checkLimit = (name: string, value?: number) => {
+  if (value !== undefined && !(Number.isSafeInteger(value) && value > 0)) {
+    throw new SecureChannelError(`Invalid ${name}: ${value}`);
+  }
+};
+
+/**
+ * Ordered, replay protected message channel over keys of a finished SRP
+ * handshake. Create it with `SRPClientSessionStep2.secureChannel`
+ * or `SRPServerSessionStep2.secureChannel`.
+ *
+ * Every message carries a sequence number that is authenticated as the
+ * AES-GCM nonce. Messages must be opened in the order they were sealed.
+ *
+ * Keys are ratcheted forward with `rekey` or automatically (see
+ * SecureChannelOptions), each message carries its key generation and the
+ * receiver follows. Keys of earlier generations are overwritten with zeros,
+ * so the current key doesn't decrypt earlier traffic. The session opening the
+ * channel overwrites its generation 0 keys and opens no other channel, but
+ * it still holds "S": drop the session as well to protect earlier traffic.
+ */
+export class SecureChannel {
+  private sendKey: ArrayBuffer;
+
+  private receiveKey: ArrayBuffer;
+
+  private sendGenerationValue = 0;
+
+  private receiveGenerationValue = 0;
+
+  /**
+   * Generation of the last sealed message
+   */
+  private sentGeneration = 0;
+
+  private sendSequence = 0;
+
+  private receiveSequence = 0;
+
+  /**
+   * Messages and plaintext bytes sealed with the current send key
+   */
+  private sentMessages = 0;
+
+  private sentBytes = 0;
+
+  /**
+   * Sealing and rekeying are serialized, so that messages get their sequence
+   * number and key generation in call order.
+   */
+  private sending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Opening is serialized, so that the receive counter only advances after a
+   * message was authenticated.
+   */
+  private receiving: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    /**
+     * Parameters of the session, their hash function ratchets the keys
+     */
+    private readonly parameters: SRPParameters,
+    /**
+     * Key of the outgoing direction
+     */
+    sendKey: ArrayBuffer,
+    /**
+     * Key of the incoming direction
+     */
+    receiveKey: ArrayBuffer,
+    private readonly options: SecureChannelOptions = {},
+  ) {
+    checkLimit("rekeyAfterMessages", options.rekeyAfterMessages);
+    checkLimit("rekeyAfterBytes", options.rekeyAfterBytes);
+    // copies, the ratchet wipes keys the session may still hold
+    this.sendKey = sendKey.slice(0);
+    this.receiveKey = receiveKey.slice(0);
+  }
+
+  /**
+   * Key generation of outgoing messages
+   */
+  public get sendGeneration(): number {
+    return this.sendGenerationValue;
+  }
+
+  /**
+   * Key generation of the last opened message
+   */
+  public get receiveGeneration(): number {
+    return this.receiveGenerationValue;
+  }
+
+  /**
+   * Encrypt the next outgoing message.
+   * @param associatedData - Context that open must be given back verbatim
+   * @returns Key generation and sequence number followed by encrypted data
+   *          and auth tag
+   */
+  public seal(
+    data: string | ArrayBuffer,
+    associatedData?: AssociatedData,
+  ): Promise<ArrayBuffer> {
+    const plaintext =
+      typeof data === "string" ? stringToArrayBuffer(data) : data.slice(0);
+    return this.enqueueSend(() =>
+      this.sealNext(plaintext, toAdditionalData(associatedData)),
+    );
+  }
+
+  /**
+   * Switch outgoing messages to the next key generation and wipe the current
+   * key. The peer switches when it opens the first message of the new
+   * generation.
+   */
+  public rekey(): Promise<void> {
+    return this.enqueueSend(() => this.ratchetSendKey());
+  }
+
+  /**
+   * Decrypt the next incoming message.
+   * @param associatedData - Context given to seal, the tag fails otherwise
+   * @throws ReplayedMessageError, OutOfOrderMessageError,
+   *         MessageAuthenticationError
+   */
+  public open(
+    message: ArrayBuffer,
+    associatedData?: AssociatedData,
+  ): Promise<ArrayBuffer> {
+    const opened = this.receiving.then(() =>
+      this.openNext(message, toAdditionalData(associatedData)),
+    );
+    this.receiving = opened.catch(() => undefined);
+    return opened;
+  }
+
+  /**
+   * Decrypt the next incoming message and return it as UTF-8 string.
+   */
+  public async openToString(
+    message: ArrayBuffer,
+    associatedData?: AssociatedData,
+  ): Promise<string> {
+    return new TextDecoder().decode(await this.open(message, associatedData));
+  }
+
+  private enqueueSend<T>(task: () => Promise<T>): Promise<T> {
+    const done = this.sending.then(task);
+    this.sending = done.catch(() => undefined);
+    return done;
+  }
+
+  private async ratchetSendKey(): Promise<void> {
+    if (this.sendGenerationValue - this.sentGeneration >= MAX_GENERATION_SKIP) {
+      throw new SecureChannelError(
+        `Can't rekey more than ${MAX_GENERATION_SKIP} times without sending`,
+      );
+    }
+    if (this.sendGenerationValue >= 0xffffffff) {
+      throw new SecureChannelError("Key generation exhausted");
+    }
+    const key = await nextKey(this.parameters, this.sendKey);
+    wipe(this.sendKey);
+    this.sendKey = key;
+    this.sendGenerationValue++;
+    this.sentMessages = 0;
+    this.sentBytes = 0;
+  }
+
+  private async sealNext(
+    plaintext: ArrayBuffer,
+    additionalData?: ArrayBuffer,
+  ): Promise<ArrayBuffer> {
+    const { rekeyAfterMessages, rekeyAfterBytes } = this.options;
+    if (
+      (rekeyAfterMessages !== undefined &&
+        this.sentMessages >= rekeyAfterMessages) ||
+      (rekeyAfterBytes !== undefined && this.sentBytes >= rekeyAfterBytes)
+    ) {
+      await this.ratchetSendKey();
+    }
+    if (this.sendSequence >= Number.MAX_SAFE_INTEGER) {
+      throw new SecureChannelError("Sequence number exhausted");
+    }
+    const nonce = messageNonce(this.sendGenerationValue, this.sendSequence++);
+    this.sentGeneration = this.sendGenerationValue;
+    this.sentMessages++;
+    this.sentBytes += plaintext.byteLength;
+
+    const aesGcm = await getAesGcm();
+    const sealed = new Uint8Array(
+      await aesGcm.encrypt(this.sendKey, nonce, plaintext, additionalData),
+    );
+    const message = new Uint8Array(HEADER_BYTES + sealed.length);
+    message.set(new Uint8Array(nonce));
+    message.set(sealed, HEADER_BYTES);
+    return message.buffer;
+  }
+
+  private async openNext(
+    message: ArrayBuffer,
+    additionalData?: ArrayBuffer,
+  ): Promise<ArrayBuffer> {
+    if (message.byteLength < HEADER_BYTES + TAG_BYTES) {
+      throw new MessageAuthenticationError("Message too short");
+    }
+    const header = new DataView(message);
+    const generation = header.getUint32(0);
+    const sequence = header.getBigUint64(GENERATION_BYTES);
+    const expected = BigInt(this.receiveSequence);
+    if (sequence < expected) {
+      throw new ReplayedMessageError(
+        `Replayed message: sequence ${sequence}, expected ${expected}`,
+      );
+    }
+    if (sequence > expected) {
+      throw new OutOfOrderMessageError(
+        `Out of order message: sequence ${sequence}, expected ${expected}`,
+      );
+    }
+    if (generation < this.receiveGenerationValue) {
+      throw new MessageAuthenticationError(
+        `Message of discarded key generation ${generation}`,
+      );
+    }
+    if (generation - this.receiveGenerationValue > MAX_GENERATION_SKIP) {
+      throw new MessageAuthenticationError(
+        `Key generation ${generation} is too far ahead`,
+      );
+    }
+
+    // ratchet on copies, the current key is only replaced once the message
+    // was authenticated
+    const keys = [this.receiveKey];
+    for (let i = this.receiveGenerationValue; i < generation; i++) {
+      keys.push(await nextKey(this.parameters, keys[keys.length - 1]));
+    }
+    const key = keys.pop()!;
+
+    const aesGcm = await getAesGcm();
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await aesGcm.decrypt(
+        key,
+        message.slice(0, HEADER_BYTES),
+        message.slice(HEADER_BYTES),
+        additionalData,
+      );
+    } catch {
+      if (key !== this.receiveKey) {
+        keys.slice(1).forEach(wipe);
+        wipe(key);
+      }
+      throw new MessageAuthenticationError(
+        "Decryption failed (authentication tag mismatch)",
+      );
+    }
+    keys.forEach(wipe);
+    this.receiveKey = key;
+    this.receiveGenerationValue = generation;
+    this.receiveSequence++;
+    return plaintext;
+  }
+}
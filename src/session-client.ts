@@ -1,10 +1,57 @@
 import type { SRPRoutines } from "./routines";
-import { encrypt, decrypt, decryptToString } from "./encryption";
+import {
+  AssociatedData,
+  DecryptArgs,
+  decrypt,
+  decryptToString,
+  encrypt,
+  isLegacyCiphertext,
+} from "./encryption";
+import {
+  KeyScheduleOptions,
+  SessionKeys,
+  deriveChannelKeys,
+  deriveSessionKeys,
+  wipeSessionKeys,
+  exportKeyingMaterial,
+} from "./key-schedule";
+import { EncryptedEnvelope } from "./envelope";
+import { SecureChannelError } from "./errors";
+import {
+  CONCEALED_SECRET_MESSAGE,
+  deriveSessionCryptoKeys,
+  SessionCryptoKeys,
+  SessionOptions,
+} from "./crypto-keys";
+import { PasswordKdfParams } from "./password-kdf";
+import {
+  SECOND_CHANNEL_MESSAGE,
+  SecureChannel,
+  SecureChannelOptions,
+} from "./secure-channel";
+import { getProfile, SRPProfileName, SRPProfileOptions } from "./profiles";
 
 // Variable names match the RFC (I, IH, S, b, B, salt, b, A, M1, M2...)
 
 export class SRPClientSession {
-  constructor(private readonly routines: SRPRoutines) { }
+  constructor(
+    private readonly routines: SRPRoutines,
+    private readonly options: SessionOptions = {},
+  ) {}
+
+  /**
+   * Session with the routines of a profile, see getProfile.
+   */
+  public static fromProfile(
+    name: SRPProfileName,
+    profileOptions?: SRPProfileOptions,
+    options?: SessionOptions,
+  ): SRPClientSession {
+    return new SRPClientSession(
+      getProfile(name).createRoutines(profileOptions),
+      options,
+    );
+  }
   public async step1(
     /**
      * User identity
@@ -23,7 +70,7 @@ export class SRPClientSession {
     }
 
     const IH = await this.routines.computeIdentityHash(userId, userPassword);
-    return new SRPClientSessionStep1(this.routines, userId, IH);
+    return new SRPClientSessionStep1(this.routines, userId, IH, this.options);
   }
 }
 
@@ -43,7 +90,8 @@ export class SRPClientSessionStep1 {
      * User identity/password hash
      */
     public readonly IH: ArrayBuffer,
-  ) { }
+    private readonly options: SessionOptions = {},
+  ) {}
 
   public async step2(
     /**
@@ -54,24 +102,40 @@ export class SRPClientSessionStep1 {
      * Server public key "B"
      */
     B: bigint,
+    /**
+     * Password KDF of the verifier record, if the server sent one
+     */
+    kdf?: PasswordKdfParams,
   ): Promise<SRPClientSessionStep2> {
     if (!salt) {
       throw new Error("Salt (s) must not be null");
     }
 
-    if (!B) {
+    if (B === null || B === undefined) {
       throw new Error("Public server value (B) must not be null");
     }
+    this.routines.checkPublicValue(B, "B");
     // TODO can we run any of these promises in parallel?
-    const x = await this.routines.computeXStep2(salt, this.IH);
+    const x = await this.routines.computeXStep2(salt, this.IH, kdf);
     const a = await this.routines.generatePrivateValue();
+    this.routines.policy.checkPrivateValue(a);
     const A = this.routines.computeClientPublicValue(a);
     const k = await this.routines.computeK();
+    this.routines.checkServerBase(B, k, x);
     const u = await this.routines.computeU(A, B);
+    this.routines.checkScramblingParameter(u);
     const S = this.routines.computeClientSessionKey(k, x, u, a, B);
     const M1 = await this.routines.computeClientEvidence(this.I, salt, A, B, S);
 
-    return new SRPClientSessionStep2(this.routines, A, M1, S);
+    return new SRPClientSessionStep2(
+      this.routines,
+      A,
+      M1,
+      S,
+      B,
+      salt,
+      this.options,
+    );
   }
 
   public toJSON(): SRPClientSessionStep1State {
@@ -81,11 +145,13 @@ export class SRPClientSessionStep1 {
   public static fromState(
     routines: SRPRoutines,
     state: SRPClientSessionStep1State,
+    options?: SessionOptions,
   ) {
     return new SRPClientSessionStep1(
       routines,
       state.I,
       new Uint8Array(state.IH).buffer,
+      options,
     );
   }
 }
@@ -94,6 +160,10 @@ export type SRPClientSessionStep2State = {
   A: string; // hex representation of bigint
   M1: string;
   S: string;
+  B: string;
+  salt: string;
+  serverVerified?: boolean;
+  channelOpened?: boolean;
 };
 
 export class SRPClientSessionStep2 {
@@ -110,8 +180,87 @@ export class SRPClientSessionStep2 {
     /**
      * Shared session key "S"
      */
-    public readonly S: bigint,
-  ) { }
+    private readonly secret: bigint,
+    /**
+     * Server public value "B"
+     */
+    public readonly B: bigint,
+    /**
+     * User salt
+     */
+    public readonly salt: bigint,
+    private readonly options: SessionOptions = {},
+  ) {}
+
+  /**
+   * Shared session key "S", throws if the session conceals it
+   */
+  public get S(): bigint {
+    if (this.options.concealSecret) {
+      throw new Error(CONCEALED_SECRET_MESSAGE);
+    }
+    return this.secret;
+  }
+
+  private keys?: Promise<SessionKeys>;
+
+  private serverVerified = false;
+
+  /**
+   * Set by secureChannel, a session opens a single channel
+   */
+  private channelOpened = false;
+
+  /**
+   * Derive the per-direction encryption keys of this session, throws if the
+   * session conceals "S".
+   */
+  public sessionKeys(options?: KeyScheduleOptions): Promise<SessionKeys> {
+    if (this.options.concealSecret) {
+      return Promise.reject(new Error(CONCEALED_SECRET_MESSAGE));
+    }
+    return this.deriveKeys(options);
+  }
+
+  /**
+   * Keys derived with the default options are cached and used by
+   * encrypt/decrypt.
+   */
+  private deriveKeys(options?: KeyScheduleOptions): Promise<SessionKeys> {
+    const derive = () =>
+      deriveSessionKeys(
+        this.routines,
+        this.secret,
+        { A: this.A, B: this.B, salt: this.salt },
+        options,
+      );
+    if (options) {
+      return derive();
+    }
+    if (!this.keys) {
+      this.keys = derive();
+    }
+    return this.keys;
+  }
+
+  /**
+   * Derive the session keys as non-extractable Web Crypto keys, see
+   * SessionCryptoKeys.
+   */
+  public cryptoKeys(options?: KeyScheduleOptions): Promise<SessionCryptoKeys> {
+    return deriveSessionCryptoKeys(
+      this.routines,
+      this.secret,
+      { A: this.A, B: this.B, salt: this.salt },
+      options,
+    );
+  }
+
+  private async decryptionKey(ivOrEnvelope: ArrayBuffer | EncryptedEnvelope) {
+    return isLegacyCiphertext(ivOrEnvelope)
+      ? this.secret
+      : (await this.deriveKeys()).serverToClient;
+  }
 
   public async step3(M2: bigint): Promise<void> {
     if (!M2) {
@@ -121,60 +270,148 @@ export class SRPClientSessionStep2 {
     const computedM2 = await this.routines.computeServerEvidence(
       this.A,
       this.M1,
-      this.S,
+      this.secret,
     );
 
-    if (computedM2 !== M2) {
+    if (!(await this.routines.isEvidenceEqual(computedM2, M2))) {
       throw new Error("Bad server credentials");
     }
+    this.serverVerified = true;
   }
 
   /**
-   * Encrypt data using the shared session key
+   * Open a secure channel to the server, available once step3 verified it.
+   * A session opens one channel, its keys are derived for it and differ from
+   * the keys of encrypt/decrypt and the session overwrites its copies. Run a
+   * new handshake for another channel.
+   * @throws SecureChannelError if the session already opened a channel
+   */
+  public async secureChannel(
+    options?: KeyScheduleOptions,
+    channelOptions?: SecureChannelOptions,
+  ): Promise<SecureChannel> {
+    if (!this.serverVerified) {
+      throw new Error("Server must be verified (step3) before secureChannel");
+    }
+    if (this.channelOpened) {
+      throw new SecureChannelError(SECOND_CHANNEL_MESSAGE);
+    }
+    this.channelOpened = true;
+    const keys = await deriveChannelKeys(
+      this.routines,
+      this.secret,
+      { A: this.A, B: this.B, salt: this.salt },
+      options,
+    );
+    try {
+      return new SecureChannel(
+        this.routines.parameters,
+        keys.clientToServer,
+        keys.serverToClient,
+        channelOptions,
+      );
+    } finally {
+      // the channel copied the keys, the ratchet can't erase these
+      wipeSessionKeys(keys);
+    }
+  }
+
+  /**
+   * Derive a key for use outside this library (a token, a file key, a TOTP
+   * seed) from the session secret, available once step3 verified the server.
+   * The server derives the same bytes for the same arguments.
+   * @param label - Names the purpose of the key, like "websocket token"
+   * @param context - Application context, may be empty
+   * @param length - Output length in bytes
+   */
+  public async exportKeyingMaterial(
+    label: string,
+    context: string | ArrayBuffer,
+    length: number,
+  ): Promise<ArrayBuffer> {
+    if (!this.serverVerified) {
+      throw new Error(
+        "Server must be verified (step3) before exportKeyingMaterial",
+      );
+    }
+    return exportKeyingMaterial(
+      this.routines,
+      this.secret,
+      { A: this.A, B: this.B, salt: this.salt },
+      label,
+      context,
+      length,
+    );
+  }
+
+  /**
+   * Encrypt data using the client to server session key
    */
   public async encrypt(
     data: string | ArrayBuffer,
-  ): Promise<{ iv: ArrayBuffer; ciphertext: ArrayBuffer }> {
-    return encrypt(this.S, data);
+    associatedData?: AssociatedData,
+  ): Promise<EncryptedEnvelope> {
+    return encrypt(
+      (await this.deriveKeys()).clientToServer,
+      data,
+      associatedData,
+    );
   }
 
   /**
-   * Decrypt data using the shared session key
+   * Decrypt data using the server to client session key
    */
-  public async decrypt(
-    iv: ArrayBuffer,
-    ciphertext: ArrayBuffer,
-  ): Promise<ArrayBuffer> {
-    return decrypt(this.S, iv, ciphertext);
+  public async decrypt(...args: DecryptArgs): Promise<ArrayBuffer> {
+    return decrypt(await this.decryptionKey(args[0]), ...args);
   }
 
   /**
    * Decrypt data and return as UTF-8 string
    */
-  public async decryptToString(
-    iv: ArrayBuffer,
-    ciphertext: ArrayBuffer,
-  ): Promise<string> {
-    return decryptToString(this.S, iv, ciphertext);
+  public async decryptToString(...args: DecryptArgs): Promise<string> {
+    return decryptToString(await this.decryptionKey(args[0]), ...args);
   }
 
+  /**
+   * Throws if the session conceals "S", the state contains it
+   */
   public toJSON(): SRPClientSessionStep2State {
     return {
       A: this.A.toString(16),
       M1: this.M1.toString(16),
       S: this.S.toString(16),
+      B: this.B.toString(16),
+      salt: this.salt.toString(16),
+      serverVerified: this.serverVerified,
+      channelOpened: this.channelOpened,
     };
   }
 
+  /**
+   * @throws Error if the state lacks B or salt, as the states of releases
+   * before the key schedule do: the session keys can't be derived from it
+   */
   public static fromState(
     routines: SRPRoutines,
     state: SRPClientSessionStep2State,
+    options?: SessionOptions,
   ) {
-    return new SRPClientSessionStep2(
+    if (state.B === undefined || state.salt === undefined) {
+      throw new Error(
+        "Client session state lacks B and salt, it was saved by an earlier release: run a new handshake",
+      );
+    }
+    const session = new SRPClientSessionStep2(
       routines,
       BigInt("0x" + state.A),
       BigInt("0x" + state.M1),
       BigInt("0x" + state.S),
+      BigInt("0x" + state.B),
+      BigInt("0x" + state.salt),
+      options,
     );
+    session.serverVerified = state.serverVerified === true;
+    session.channelOpened = state.channelOpened === true;
+    return session;
   }
 }
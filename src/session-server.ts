@@ -1,12 +1,56 @@
-import type { SRPParameters } from "./parameters";
 import type { SRPRoutines } from "./routines";
-import { modPow } from "./utils";
-import { encrypt, decrypt, decryptToString } from "./encryption";
+import {
+  AssociatedData,
+  DecryptArgs,
+  decrypt,
+  decryptToString,
+  encrypt,
+  isLegacyCiphertext,
+} from "./encryption";
+import {
+  KeyScheduleOptions,
+  SessionKeys,
+  deriveChannelKeys,
+  deriveSessionKeys,
+  wipeSessionKeys,
+  exportKeyingMaterial,
+} from "./key-schedule";
+import { EncryptedEnvelope } from "./envelope";
+import { SecureChannelError, SRPValidationError } from "./errors";
+import {
+  CONCEALED_SECRET_MESSAGE,
+  deriveSessionCryptoKeys,
+  SessionCryptoKeys,
+  SessionOptions,
+} from "./crypto-keys";
+import {
+  SECOND_CHANNEL_MESSAGE,
+  SecureChannel,
+  SecureChannelOptions,
+} from "./secure-channel";
+import { getProfile, SRPProfileName, SRPProfileOptions } from "./profiles";
 
 // Variable names match the RFC (I, IH, S, b, B, salt, b, A, M1, M2...)
 
 export class SRPServerSession {
-  constructor(private readonly routines: SRPRoutines) { }
+  constructor(
+    private readonly routines: SRPRoutines,
+    private readonly options: SessionOptions = {},
+  ) {}
+
+  /**
+   * Session with the routines of a profile, see getProfile.
+   */
+  public static fromProfile(
+    name: SRPProfileName,
+    profileOptions?: SRPProfileOptions,
+    options?: SessionOptions,
+  ): SRPServerSession {
+    return new SRPServerSession(
+      getProfile(name).createRoutines(profileOptions),
+      options,
+    );
+  }
 
   public async step1(
     /**
@@ -23,13 +67,9 @@ export class SRPServerSession {
     verifier: bigint,
   ) {
     const b = await this.routines.generatePrivateValue();
+    this.routines.policy.checkPrivateValue(b);
     const k = await this.routines.computeK();
-    const B = computeServerPublicValue(
-      this.routines.parameters,
-      k,
-      verifier,
-      b,
-    );
+    const B = computeServerPublicValue(this.routines, k, verifier, b);
     return new SRPServerSessionStep1(
       this.routines,
       identifier,
@@ -37,6 +77,7 @@ export class SRPServerSession {
       verifier,
       b,
       B,
+      this.options,
     );
   }
 }
@@ -72,28 +113,40 @@ export class SRPServerSessionStep1 {
      * Serve public key "B"
      */
     public readonly B: bigint,
-  ) { }
+    private readonly options: SessionOptions = {},
+  ) {}
 
   /**
-   * Compute the session key "S" without computing or checking client evidence
+   * Compute the session key "S" without computing or checking the client
+   * evidence. Anyone can send an "A" without knowing the password, so the
+   * result must not be used to authenticate the client, see step2. Throws if
+   * the session conceals "S".
    */
-  public async sessionKey(
+  public async unsafeUnverifiedSessionKey(
     /**
      * Client public key "A"
      */
     A: bigint,
   ): Promise<bigint> {
-    if (A === null) {
-      throw new Error("Client public value (A) must not be null");
+    if (this.options.concealSecret) {
+      throw new Error(CONCEALED_SECRET_MESSAGE);
     }
+    return this.computeSessionKey(A);
+  }
 
-    if (!this.routines.isValidPublicValue(A)) {
-      throw new Error(`Invalid Client public value (A): ${A.toString(16)}`);
+  private async computeSessionKey(A: bigint): Promise<bigint> {
+    if (A === null || A === undefined) {
+      throw new SRPValidationError("Client public value (A) must not be null");
+    }
+    if (typeof A !== "bigint") {
+      throw new SRPValidationError("Client public value (A) must be a bigint");
     }
 
+    this.routines.checkPublicValue(A, "A");
     const u = await this.routines.computeU(A, this.B);
+    this.routines.checkScramblingParameter(u);
     const S = computeServerSessionKey(
-      this.routines.parameters.primeGroup.N,
+      this.routines,
       this.verifier,
       u,
       A,
@@ -102,6 +155,10 @@ export class SRPServerSessionStep1 {
     return S;
   }
 
+  /**
+   * Verify the client evidence, the returned session holds "M2" for the
+   * client and the keys of the verified client.
+   */
   public async step2(
     /**
      * Client public key "A"
@@ -111,12 +168,12 @@ export class SRPServerSessionStep1 {
      * Client message "M1"
      */
     M1: bigint,
-  ) {
+  ): Promise<SRPServerSessionStep2> {
     if (!M1) {
       throw new Error("Client evidence (M1) must not be null");
     }
 
-    const S = await this.sessionKey(A);
+    const S = await this.computeSessionKey(A);
 
     const computedM1 = await this.routines.computeClientEvidence(
       this.identifier,
@@ -126,93 +183,325 @@ export class SRPServerSessionStep1 {
       S,
     );
 
-    if (computedM1 !== M1) {
+    if (!(await this.routines.isEvidenceEqual(computedM1, M1))) {
       throw new Error("Bad client credentials");
     }
 
-    const M2 = this.routines.computeServerEvidence(A, M1, S);
+    const M2 = await this.routines.computeServerEvidence(A, M1, S);
 
-    return M2;
+    return new SRPServerSessionStep2(
+      this.routines,
+      this.identifier,
+      A,
+      M2,
+      S,
+      await this.routines.computeSharedKey(S),
+      this.B,
+      this.salt,
+      this.options,
+    );
+  }
+
+  public toJSON(): SRPServerSessionStep1State {
+    return {
+      identifier: this.identifier,
+      salt: this.salt.toString(16),
+      verifier: this.verifier.toString(16),
+      b: this.b.toString(16),
+      B: this.B.toString(16),
+    };
+  }
+
+  public static fromState(
+    routines: SRPRoutines,
+    state: SRPServerSessionStep1State,
+    options?: SessionOptions,
+  ) {
+    return new SRPServerSessionStep1(
+      routines,
+      state.identifier,
+      BigInt(`0x${state.salt}`),
+      BigInt(`0x${state.verifier}`),
+      BigInt(`0x${state.b}`),
+      BigInt(`0x${state.B}`),
+      options,
+    );
+  }
+}
+
+export type SRPServerSessionStep2State = {
+  identifier: string;
+  A: string; // hex representation of bigint
+  M2: string;
+  S: string;
+  K: string; // hex representation of the bytes
+  B: string;
+  salt: string;
+  channelOpened?: boolean;
+};
+
+const bytesToHex = (bytes: ArrayBuffer): string =>
+  Array.from(new Uint8Array(bytes), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+
+const hexToBytes = (hex: string): ArrayBuffer =>
+  new Uint8Array((hex.match(/../g) ?? []).map((byte) => parseInt(byte, 16)))
+    .buffer;
+
+/**
+ * Server session after step2 verified the client.
+ */
+export class SRPServerSessionStep2 {
+  constructor(
+    private readonly routines: SRPRoutines,
+    /**
+     * Verified user identity
+     */
+    public readonly identifier: string,
+    /**
+     * Client public value "A"
+     */
+    public readonly A: bigint,
+    /**
+     * Server evidence message "M2", sent to the client
+     */
+    public readonly M2: bigint,
+    /**
+     * Shared session key "S"
+     */
+    private readonly secret: bigint,
+    /**
+     * Session key "K" = H(S), see SRPRoutines.computeSharedKey
+     */
+    private readonly sharedKey: ArrayBuffer,
+    /**
+     * Server public value "B"
+     */
+    public readonly B: bigint,
+    /**
+     * User salt
+     */
+    public readonly salt: bigint,
+    private readonly options: SessionOptions = {},
+  ) {}
+
+  /**
+   * Shared session key "S", throws if the session conceals it
+   */
+  public get S(): bigint {
+    if (this.options.concealSecret) {
+      throw new Error(CONCEALED_SECRET_MESSAGE);
+    }
+    return this.secret;
+  }
+
+  /**
+   * Session key "K" = H(S), throws if the session conceals "S"
+   */
+  public get K(): ArrayBuffer {
+    if (this.options.concealSecret) {
+      throw new Error(CONCEALED_SECRET_MESSAGE);
+    }
+    return this.sharedKey.slice(0);
+  }
+
+  private keys?: Promise<SessionKeys>;
+
+  /**
+   * Set by secureChannel, a session opens a single channel
+   */
+  private channelOpened = false;
+
+  /**
+   * Derive the per-direction encryption keys of this session, throws if the
+   * session conceals "S".
+   */
+  public sessionKeys(options?: KeyScheduleOptions): Promise<SessionKeys> {
+    if (this.options.concealSecret) {
+      return Promise.reject(new Error(CONCEALED_SECRET_MESSAGE));
+    }
+    return this.deriveKeys(options);
+  }
+
+  /**
+   * Keys derived with the default options are cached and used by
+   * encrypt/decrypt.
+   */
+  private deriveKeys(options?: KeyScheduleOptions): Promise<SessionKeys> {
+    const derive = () =>
+      deriveSessionKeys(
+        this.routines,
+        this.secret,
+        { A: this.A, B: this.B, salt: this.salt },
+        options,
+      );
+    if (options) {
+      return derive();
+    }
+    if (!this.keys) {
+      this.keys = derive();
+    }
+    return this.keys;
+  }
+
+  /**
+   * Derive the session keys as non-extractable Web Crypto keys, see
+   * SessionCryptoKeys.
+   */
+  public cryptoKeys(options?: KeyScheduleOptions): Promise<SessionCryptoKeys> {
+    return deriveSessionCryptoKeys(
+      this.routines,
+      this.secret,
+      { A: this.A, B: this.B, salt: this.salt },
+      options,
+    );
+  }
+
+  private async decryptionKey(ivOrEnvelope: ArrayBuffer | EncryptedEnvelope) {
+    return isLegacyCiphertext(ivOrEnvelope)
+      ? this.secret
+      : (await this.deriveKeys()).clientToServer;
+  }
+
+  /**
+   * Open a secure channel to the client. A session opens one channel, its
+   * keys are derived for it and differ from the keys of encrypt/decrypt, the
+   * session overwrites its copies.
+   * @throws SecureChannelError if the session already opened a channel
+   */
+  public async secureChannel(
+    options?: KeyScheduleOptions,
+    channelOptions?: SecureChannelOptions,
+  ): Promise<SecureChannel> {
+    if (this.channelOpened) {
+      throw new SecureChannelError(SECOND_CHANNEL_MESSAGE);
+    }
+    this.channelOpened = true;
+    const keys = await deriveChannelKeys(
+      this.routines,
+      this.secret,
+      { A: this.A, B: this.B, salt: this.salt },
+      options,
+    );
+    try {
+      return new SecureChannel(
+        this.routines.parameters,
+        keys.serverToClient,
+        keys.clientToServer,
+        channelOptions,
+      );
+    } finally {
+      // the channel copied the keys, the ratchet can't erase these
+      wipeSessionKeys(keys);
+    }
   }
 
   /**
-   * Encrypt data using the shared session key (must call sessionKey or step2 first)
+   * Derive a key for use outside this library (a token, a file key, a TOTP
+   * seed) from the session secret. The client derives the same bytes for the
+   * same arguments.
+   * @param label - Names the purpose of the key, like "websocket token"
+   * @param context - Application context, may be empty
+   * @param length - Output length in bytes
+   */
+  public exportKeyingMaterial(
+    label: string,
+    context: string | ArrayBuffer,
+    length: number,
+  ): Promise<ArrayBuffer> {
+    return exportKeyingMaterial(
+      this.routines,
+      this.secret,
+      { A: this.A, B: this.B, salt: this.salt },
+      label,
+      context,
+      length,
+    );
+  }
+
+  /**
+   * Encrypt data using the server to client session key
    */
   public async encrypt(
-    A: bigint,
     data: string | ArrayBuffer,
-  ): Promise<{ iv: ArrayBuffer; ciphertext: ArrayBuffer }> {
-    const S = await this.sessionKey(A);
-    return encrypt(S, data);
+    associatedData?: AssociatedData,
+  ): Promise<EncryptedEnvelope> {
+    return encrypt(
+      (await this.deriveKeys()).serverToClient,
+      data,
+      associatedData,
+    );
   }
 
   /**
-   * Decrypt data using the shared session key (must call sessionKey or step2 first)
+   * Decrypt data using the client to server session key
    */
-  public async decrypt(
-    A: bigint,
-    iv: ArrayBuffer,
-    ciphertext: ArrayBuffer,
-  ): Promise<ArrayBuffer> {
-    const S = await this.sessionKey(A);
-    return decrypt(S, iv, ciphertext);
+  public async decrypt(...args: DecryptArgs): Promise<ArrayBuffer> {
+    return decrypt(await this.decryptionKey(args[0]), ...args);
   }
 
   /**
    * Decrypt data and return as UTF-8 string
    */
-  public async decryptToString(
-    A: bigint,
-    iv: ArrayBuffer,
-    ciphertext: ArrayBuffer,
-  ): Promise<string> {
-    const S = await this.sessionKey(A);
-    return decryptToString(S, iv, ciphertext);
+  public async decryptToString(...args: DecryptArgs): Promise<string> {
+    return decryptToString(await this.decryptionKey(args[0]), ...args);
   }
 
-  public toJSON(): SRPServerSessionStep1State {
+  /**
+   * Throws if the session conceals "S", the state contains it
+   */
+  public toJSON(): SRPServerSessionStep2State {
     return {
       identifier: this.identifier,
-      salt: this.salt.toString(16),
-      verifier: this.verifier.toString(16),
-      b: this.b.toString(16),
+      A: this.A.toString(16),
+      M2: this.M2.toString(16),
+      S: this.S.toString(16),
+      K: bytesToHex(this.sharedKey),
       B: this.B.toString(16),
+      salt: this.salt.toString(16),
+      channelOpened: this.channelOpened,
     };
   }
 
   public static fromState(
     routines: SRPRoutines,
-    state: SRPServerSessionStep1State,
+    state: SRPServerSessionStep2State,
+    options?: SessionOptions,
   ) {
-    return new SRPServerSessionStep1(
+    const session = new SRPServerSessionStep2(
       routines,
       state.identifier,
-      BigInt(`0x${state.salt}`),
-      BigInt(`0x${state.verifier}`),
-      BigInt(`0x${state.b}`),
-      BigInt(`0x${state.B}`),
+      BigInt("0x" + state.A),
+      BigInt("0x" + state.M2),
+      BigInt("0x" + state.S),
+      hexToBytes(state.K),
+      BigInt("0x" + state.B),
+      BigInt("0x" + state.salt),
+      options,
     );
+    session.channelOpened = state.channelOpened === true;
+    return session;
   }
 }
 
 const computeServerPublicValue = (
-  parameters: SRPParameters,
+  { backend, parameters }: SRPRoutines,
   k: bigint,
   v: bigint,
   b: bigint,
 ): bigint => {
-  return (
-    (modPow(parameters.primeGroup.g, b, parameters.primeGroup.N) + v * k) %
-    parameters.primeGroup.N
-  );
+  const N = parameters.primeGroup.N;
+  return (backend.generatorPow(parameters, b) + backend.modMul(v, k, N)) % N;
 };
 
 const computeServerSessionKey = (
-  N: bigint,
+  { backend, parameters }: SRPRoutines,
   v: bigint,
   u: bigint,
   A: bigint,
   b: bigint,
 ): bigint => {
-  return modPow(modPow(v, u, N) * A, b, N);
+  const N = parameters.primeGroup.N;
+  return backend.modPow(backend.modMul(backend.modPow(v, u, N), A, N), b, N);
 };
@@ -0,0 +1,132 @@
+/**
+ * SHA3 (FIPS 202) in plain TypeScript. The Keccak state holds 25 lanes of 64
+ * bits, stored as pairs of 32 bit words, low word first.
+ */
+
+// round constants from the LFSR of FIPS 202 section 3.2.5
+const ROUND_CONSTANTS = new Uint32Array(48);
+{
+  let r = 1;
+  for (let round = 0; round < 24; round++) {
+    for (let j = 0; j < 7; j++) {
+      r = ((r << 1) ^ ((r >> 7) * 0x71)) % 256;
+      if (r & 2) {
+        const bit = (1 << j) - 1;
+        ROUND_CONSTANTS[2 * round + (bit >> 5)] |= 1 << (bit & 31);
+      }
+    }
+  }
+}
+
+// rotation offsets of lane x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18,
+  2, 61, 56, 14,
+];
+
+/**
+ * Store lane `from` of a rotated left by n bits as lane `to` of b.
+ */
+function rotateLane(
+  a: Uint32Array,
+  from: number,
+  b: Uint32Array,
+  to: number,
+  n: number,
+) {
+  const low = a[2 * from];
+  const high = a[2 * from + 1];
+  if (n === 0) {
+    b[2 * to] = low;
+    b[2 * to + 1] = high;
+  } else if (n < 32) {
+    b[2 * to] = (low << n) | (high >>> (32 - n));
+    b[2 * to + 1] = (high << n) | (low >>> (32 - n));
+  } else if (n === 32) {
+    b[2 * to] = high;
+    b[2 * to + 1] = low;
+  } else {
+    b[2 * to] = (high << (n - 32)) | (low >>> (64 - n));
+    b[2 * to + 1] = (low << (n - 32)) | (high >>> (64 - n));
+  }
+}
+
+function keccakF(s: Uint32Array) {
+  const c = new Uint32Array(10);
+  const d = new Uint32Array(2);
+  const b = new Uint32Array(50);
+  for (let round = 0; round < 24; round++) {
+    // theta
+    for (let x = 0; x < 10; x++) {
+      c[x] = s[x] ^ s[x + 10] ^ s[x + 20] ^ s[x + 30] ^ s[x + 40];
+    }
+    for (let x = 0; x < 5; x++) {
+      rotateLane(c, (x + 1) % 5, d, 0, 1);
+      const low = d[0] ^ c[2 * ((x + 4) % 5)];
+      const high = d[1] ^ c[2 * ((x + 4) % 5) + 1];
+      for (let y = 0; y < 25; y += 5) {
+        s[2 * (x + y)] ^= low;
+        s[2 * (x + y) + 1] ^= high;
+      }
+    }
+    // rho and pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        rotateLane(
+          s,
+          x + 5 * y,
+          b,
+          y + 5 * ((2 * x + 3 * y) % 5),
+          ROTATIONS[x + 5 * y],
+        );
+      }
+    }
+    // chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        for (let half = 0; half < 2; half++) {
+          s[2 * (x + y) + half] =
+            b[2 * (x + y) + half] ^
+            (~b[2 * (((x + 1) % 5) + y) + half] &
+              b[2 * (((x + 2) % 5) + y) + half]);
+        }
+      }
+    }
+    // iota
+    s[0] ^= ROUND_CONSTANTS[2 * round];
+    s[1] ^= ROUND_CONSTANTS[2 * round + 1];
+  }
+}
+
+/**
+ * SHA3-224, SHA3-256, SHA3-384 or SHA3-512 digest, selected by the output
+ * length in bytes.
+ */
+export function sha3(data: Uint8Array, outputLength: number): Uint8Array {
+  if (![28, 32, 48, 64].includes(outputLength)) {
+    throw new Error(`Invalid SHA3 output length: ${outputLength}`);
+  }
+  const rate = 200 - 2 * outputLength;
+  // SHA3 domain separation bits 01 and pad10*1
+  const blocks = Math.floor(data.length / rate) + 1;
+  const padded = new Uint8Array(blocks * rate);
+  padded.set(data);
+  padded[data.length] ^= 0x06;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Uint32Array(50);
+  const view = new DataView(padded.buffer);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let i = 0; i < rate / 4; i++) {
+      state[i] ^= view.getUint32(offset + 4 * i, true);
+    }
+    keccakF(state);
+  }
+
+  const digest = new Uint8Array(outputLength);
+  const digestView = new DataView(digest.buffer);
+  for (let i = 0; i < outputLength / 4; i++) {
+    digestView.setUint32(4 * i, state[i], true);
+  }
+  return digest;
+}
@@ -0,0 +1,231 @@
+import {
+  AssociatedData,
+  EncryptionKey,
+  getAesGcm,
+  toAdditionalData,
+  toAesKey,
+} from "./encryption";
+import { getCompatibleCrypto } from "./cross-env-crypto";
+
+/**
+ * Chunked AES-256-GCM for payloads too large to buffer, following the STREAM
+ * construction (Hoang, Reyhanitabar, Rogaway, Vizár: "Online
+ * Authenticated-Encryption and its Nonce-Reuse Misuse-Resistance").
+ *
+ * Output is a 12 byte header followed by records:
+ * - header: version (1 byte), chunk size (4 bytes big endian), random nonce
+ *   prefix (7 bytes)
+ * - record: chunk size bytes of ciphertext and a 16 byte tag, the last record
+ *   holds the remaining 0 to chunk size bytes
+ *
+ * The nonce of record i is prefix || i (4 bytes) || last flag (1 byte), and the
+ * header is authenticated with every record, so reordered, dropped or
+ * truncated records fail to decrypt.
+ */
+export const STREAM_VERSION = 1;
+
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Largest chunk size, records are buffered whole before they are
+ * authenticated
+ */
+export const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+const HEADER_BYTES = 12;
+const NONCE_PREFIX_BYTES = 7;
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const MAX_RECORDS = 2 ** 32;
+
+export interface StreamEncryptionOptions {
+  /**
+   * Plaintext bytes per record, DEFAULT_CHUNK_SIZE if not set
+   */
+  chunkSize?: number;
+  /**
+   * Context authenticated with every record, decryption must get it verbatim
+   */
+  associatedData?: AssociatedData;
+}
+
+export interface StreamDecryptionOptions
+  extends Pick<StreamEncryptionOptions, "associatedData"> {
+  /**
+   * Largest chunk size accepted from the header, MAX_CHUNK_SIZE if not set
+   */
+  maxChunkSize?: number;
+}
+
+const concat = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const target = new Uint8Array(a.length + b.length);
+  target.set(a);
+  target.set(b, a.length);
+  return target;
+};
+
+const recordNonce = (
+  header: Uint8Array,
+  index: number,
+  last: boolean,
+): ArrayBuffer => {
+  if (index >= MAX_RECORDS) {
+    throw new Error("Too many records in stream");
+  }
+  const nonce = new Uint8Array(NONCE_BYTES);
+  nonce.set(header.subarray(HEADER_BYTES - NONCE_PREFIX_BYTES));
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_BYTES, index);
+  nonce[NONCE_BYTES - 1] = last ? 1 : 0;
+  return nonce.buffer;
+};
+
+const recordAdditionalData = (
+  header: Uint8Array,
+  associatedData?: AssociatedData,
+): ArrayBuffer => {
+  const additionalData = toAdditionalData(associatedData);
+  return concat(header, new Uint8Array(additionalData || new ArrayBuffer(0)))
+    .buffer as ArrayBuffer;
+};
+
+/**
+ * Create a TransformStream encrypting a byte stream in chunks.
+ * @param key - See EncryptionKey
+ * @param options - See StreamEncryptionOptions
+ */
+export function createEncryptStream(
+  key: EncryptionKey,
+  options: StreamEncryptionOptions = {},
+): TransformStream<Uint8Array, Uint8Array> {
+  const { chunkSize = DEFAULT_CHUNK_SIZE } = options;
+  if (
+    !Number.isInteger(chunkSize) ||
+    chunkSize < 1 ||
+    chunkSize > MAX_CHUNK_SIZE
+  ) {
+    throw new Error(`Invalid chunk size: ${chunkSize}`);
+  }
+
+  let aesKey: ArrayBuffer;
+  let header: Uint8Array;
+  let additionalData: ArrayBuffer;
+  let pending: Uint8Array = new Uint8Array(0);
+  let index = 0;
+
+  const sealRecord = async (plaintext: Uint8Array, last: boolean) => {
+    const aesGcm = await getAesGcm();
+    return new Uint8Array(
+      await aesGcm.encrypt(
+        aesKey,
+        recordNonce(header, index++, last),
+        plaintext.slice().buffer,
+        additionalData,
+      ),
+    );
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async start(controller) {
+      const crypto = await getCompatibleCrypto();
+      aesKey = await toAesKey(key);
+      header = new Uint8Array(HEADER_BYTES);
+      header[0] = STREAM_VERSION;
+      new DataView(header.buffer).setUint32(1, chunkSize);
+      crypto.randomBytes(header.subarray(HEADER_BYTES - NONCE_PREFIX_BYTES));
+      additionalData = recordAdditionalData(header, options.associatedData);
+      controller.enqueue(header.slice());
+    },
+    async transform(chunk, controller) {
+      pending = concat(pending, chunk);
+      // a full chunk is only sealed once more data follows, the last
+      // record must be flagged as such
+      while (pending.length > chunkSize) {
+        controller.enqueue(
+          await sealRecord(pending.subarray(0, chunkSize), false),
+        );
+        pending = pending.slice(chunkSize);
+      }
+    },
+    async flush(controller) {
+      controller.enqueue(await sealRecord(pending, true));
+    },
+  });
+}
+
+/**
+ * Create a TransformStream decrypting the output of createEncryptStream.
+ * The stream errors when a record fails authentication, the header has a
+ * chunk size above maxChunkSize or the input ends before the last record.
+ * @param key - See EncryptionKey
+ * @param options - See StreamDecryptionOptions
+ */
+export function createDecryptStream(
+  key: EncryptionKey,
+  options: StreamDecryptionOptions = {},
+): TransformStream<Uint8Array, Uint8Array> {
+  const { maxChunkSize = MAX_CHUNK_SIZE } = options;
+  let aesKey: ArrayBuffer;
+  let header: Uint8Array | undefined;
+  let additionalData: ArrayBuffer;
+  let recordSize = 0;
+  let pending: Uint8Array = new Uint8Array(0);
+  let index = 0;
+
+  const openRecord = async (record: Uint8Array, last: boolean) => {
+    const aesGcm = await getAesGcm();
+    try {
+      return new Uint8Array(
+        await aesGcm.decrypt(
+          aesKey,
+          recordNonce(header!, index++, last),
+          record.slice().buffer,
+          additionalData,
+        ),
+      );
+    } catch {
+      throw new Error("Decryption failed (authentication tag mismatch)");
+    }
+  };
+
+  const readHeader = () => {
+    header = pending.slice(0, HEADER_BYTES);
+    pending = pending.slice(HEADER_BYTES);
+    if (header[0] !== STREAM_VERSION) {
+      throw new Error(`Unsupported stream version: ${header[0]}`);
+    }
+    const chunkSize = new DataView(header.buffer).getUint32(1);
+    // checked before buffering a record, the header isn't authenticated yet
+    if (chunkSize < 1 || chunkSize > maxChunkSize) {
+      throw new Error(`Invalid chunk size: ${chunkSize}`);
+    }
+    recordSize = chunkSize + TAG_BYTES;
+    additionalData = recordAdditionalData(header, options.associatedData);
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async start() {
+      aesKey = await toAesKey(key);
+    },
+    async transform(chunk, controller) {
+      pending = concat(pending, chunk);
+      if (!header) {
+        if (pending.length < HEADER_BYTES) {
+          return;
+        }
+        readHeader();
+      }
+      while (pending.length > recordSize) {
+        controller.enqueue(
+          await openRecord(pending.subarray(0, recordSize), false),
+        );
+        pending = pending.slice(recordSize);
+      }
+    },
+    async flush(controller) {
+      if (!header || pending.length < TAG_BYTES) {
+        throw new Error("Encrypted stream is truncated");
+      }
+      controller.enqueue(await openRecord(pending, true));
+    },
+  });
+}
@@ -0,0 +1,88 @@
+import { TLV8FormatError } from "./errors";
+
+/**
+ * TLV8 of the HomeKit Accessory Protocol: each item is a type byte, a length
+ * byte and up to 255 bytes of value. Longer values are split into fragments
+ * of the same type, items of the same type in a list are separated by an
+ * empty item of type 0xff.
+ */
+
+export const TLV8_SEPARATOR = 0xff;
+
+const MAX_FRAGMENT_BYTES = 255;
+
+export interface TLV8Item {
+  type: number;
+  value: Uint8Array;
+}
+
+/**
+ * Little-endian bytes of an unsigned integer, at least one byte.
+ */
+export function encodeTLV8Integer(n: number): Uint8Array {
+  if (!Number.isSafeInteger(n) || n < 0) {
+    throw new TLV8FormatError(`Invalid TLV8 integer: ${n}`);
+  }
+  const bytes = [];
+  do {
+    bytes.push(n % 256);
+    n = Math.floor(n / 256);
+  } while (n > 0);
+  return new Uint8Array(bytes);
+}
+
+export function decodeTLV8Integer(value: Uint8Array): number {
+  if (value.length === 0 || value.length > 6) {
+    throw new TLV8FormatError(`Invalid TLV8 integer length: ${value.length}`);
+  }
+  return value.reduceRight((n, byte) => n * 256 + byte, 0);
+}
+
+export function encodeTLV8(items: TLV8Item[]): Uint8Array {
+  const bytes: number[] = [];
+  for (const { type, value } of items) {
+    if (!Number.isInteger(type) || type < 0 || type > 0xff) {
+      throw new TLV8FormatError(`Invalid TLV8 type: ${type}`);
+    }
+    let offset = 0;
+    do {
+      const fragment = value.subarray(offset, offset + MAX_FRAGMENT_BYTES);
+      bytes.push(type, fragment.length, ...fragment);
+      offset += MAX_FRAGMENT_BYTES;
+    } while (offset < value.length);
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Items in order, with fragments joined and separators kept.
+ * @throws TLV8FormatError if an item is truncated
+ */
+export function decodeTLV8(data: Uint8Array): TLV8Item[] {
+  const items: TLV8Item[] = [];
+  // a full fragment is continued by the next item of the same type
+  let continued = false;
+  for (let offset = 0; offset < data.length; ) {
+    if (offset + 2 > data.length) {
+      throw new TLV8FormatError("Truncated TLV8 item header");
+    }
+    const type = data[offset];
+    const length = data[offset + 1];
+    if (offset + 2 + length > data.length) {
+      throw new TLV8FormatError(`Truncated TLV8 item of type ${type}`);
+    }
+    const value = data.slice(offset + 2, offset + 2 + length);
+    const last = items[items.length - 1];
+    if (continued && last.type === type) {
+      const joined = new Uint8Array(last.value.length + value.length);
+      joined.set(last.value);
+      joined.set(value, last.value.length);
+      last.value = joined;
+    } else {
+      items.push({ type, value });
+    }
+    continued = length === MAX_FRAGMENT_BYTES;
+    offset += 2 + length;
+  }
+  return items;
+}
@@ -1,10 +1,12 @@
 import type { SRPParameters } from "./parameters";
+import type { PasswordKdfParams } from "./password-kdf";
+import type { SRPProfileName } from "./profiles";
 import type { SRPRoutines } from "./routines";
 import { getCompatibleCrypto } from "./cross-env-crypto";
+import { modPowSlidingWindow } from "./exponentiation";
 
 const ZERO: bigint = BigInt(0);
 const ONE: bigint = BigInt(1);
-const TWO: bigint = BigInt(2);
 
 export const bigIntToArrayBuffer = (n: bigint): ArrayBuffer => {
   const hex = n.toString(16);
@@ -87,6 +89,31 @@ export function hashPadded(
   return hash(parameters, ...arraysPadded);
 }
 
+/**
+ * HMAC (RFC 2104) over the hash function of the parameters.
+ */
+export async function hmac(
+  parameters: SRPParameters,
+  key: ArrayBuffer,
+  ...arrays: ArrayBuffer[]
+): Promise<ArrayBuffer> {
+  // without a declared block length: SHA-1 and SHA-256 process 64 byte
+  // blocks, SHA-384 and SHA-512 128 bytes
+  const blockLength =
+    parameters.H.blockLength ??
+    ((await hashBitCount(parameters)) > 256 ? 128 : 64);
+  const block = new Uint8Array(blockLength);
+  block.set(
+    new Uint8Array(
+      key.byteLength > blockLength ? await parameters.H(key) : key,
+    ),
+  );
+  const ipad = block.map((byte) => byte ^ 0x36);
+  const opad = block.map((byte) => byte ^ 0x5c);
+  const inner = await hash(parameters, ipad.buffer, ...arrays);
+  return hash(parameters, opad.buffer, inner);
+}
+
 /**
  * Generates random string of ASCII characters using crypto secure random generator.
  * @param characterCount The length of the result string.
@@ -139,6 +166,15 @@ export async function createVerifier(
 export interface IVerifierAndSalt {
   v: bigint;
   s: bigint;
+  /**
+   * Password KDF of the routines, to store with the salt and send to the
+   * client
+   */
+  kdf?: PasswordKdfParams;
+  /**
+   * Profile of the routines, to choose the routines when loading the record
+   */
+  profile?: SRPProfileName;
 }
 
 export async function createVerifierAndSalt(
@@ -152,13 +188,16 @@ export async function createVerifierAndSalt(
   return {
     s,
     v: await createVerifier(routines, I, s, P),
+    ...(routines.passwordKdf ? { kdf: routines.passwordKdf.params } : {}),
+    ...(routines.profile ? { profile: routines.profile } : {}),
   };
 }
 
 export const hashBitCount = async (
   parameters: SRPParameters,
 ): Promise<number> =>
-  (await hash(parameters, bigIntToArrayBuffer(BigInt(1)))).byteLength * 8;
+  (parameters.H.outputLength ??
+    (await hash(parameters, bigIntToArrayBuffer(BigInt(1)))).byteLength) * 8;
 
 /**
  * Calculates (x**pow) % mod
@@ -176,17 +215,7 @@ export function modPow(x: bigint, pow: bigint, mod: bigint): bigint {
   if (mod < ONE) {
     throw new Error("Invalid modulo: " + mod.toString());
   }
-  let result: bigint = ONE;
-  while (pow > ZERO) {
-    if (pow % TWO === ONE) {
-      result = (x * result) % mod;
-      pow -= ONE;
-    } else {
-      x = (x * x) % mod;
-      pow /= TWO;
-    }
-  }
-  return result;
+  return modPowSlidingWindow(x, pow, mod);
 }
 
 const generateRandom = async (numBytes: number): Promise<ArrayBuffer> => {
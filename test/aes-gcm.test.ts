@@ -0,0 +1,100 @@
+import { aesGcm } from "../src/aes-gcm";
+import { getCompatibleCrypto } from "../src/cross-env-crypto";
+import { toHex, test } from "./tests";
+
+const random = (length: number) =>
+  globalThis.crypto.getRandomValues(new Uint8Array(length)).buffer;
+
+test("#AES-GCM GCM specification test case 14", async (t) => {
+  t.plan(1);
+  t.equals(
+    toHex(
+      await aesGcm.encrypt(
+        new ArrayBuffer(32),
+        new ArrayBuffer(12),
+        new ArrayBuffer(16),
+      ),
+    ),
+    "cea7403d4d606b6e074ec5d3baf39d18" + "d0d1c8a799996bf0265b98b5d48ab919",
+    "Ciphertext and tag",
+  );
+});
+
+test("#AES-GCM output is identical to Web Crypto", async (t) => {
+  const cases: [number, number, number, number][] = [
+    // key, IV, plaintext and additional data lengths
+    [32, 12, 0, 0],
+    [32, 12, 1, 0],
+    [32, 12, 16, 5],
+    [32, 12, 61, 17],
+    [32, 12, 1000, 64],
+    [16, 12, 33, 3],
+    [24, 12, 33, 3],
+    [32, 16, 20, 0],
+    [32, 60, 20, 7],
+  ];
+  t.plan(cases.length * 2);
+  const { subtle } = globalThis.crypto;
+
+  for (const [keyBytes, ivBytes, length, aadBytes] of cases) {
+    const key = random(keyBytes);
+    const iv = random(ivBytes);
+    const plaintext = random(length);
+    const additionalData = random(aadBytes);
+    const native = await subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData },
+      await subtle.importKey("raw", key, "AES-GCM", false, ["encrypt"]),
+      plaintext,
+    );
+    const sealed = await aesGcm.encrypt(key, iv, plaintext, additionalData);
+    const description = `${keyBytes * 8} bit key, ${ivBytes} byte IV, ${length} bytes`;
+    t.equals(toHex(sealed), toHex(native), description);
+    t.equals(
+      toHex(await aesGcm.decrypt(key, iv, native, additionalData)),
+      toHex(plaintext),
+      `${description} decrypts`,
+    );
+  }
+});
+
+test("#AES-GCM rejects tampered data", async (t) => {
+  t.plan(2);
+  const key = random(32);
+  const iv = random(12);
+  const sealed = await aesGcm.encrypt(key, iv, random(40), random(4));
+
+  const tampered = new Uint8Array(sealed.slice(0));
+  tampered[3] ^= 1;
+  await t.rejects(
+    () => aesGcm.decrypt(key, iv, tampered.buffer),
+    /tag mismatch/i,
+    "Tampered ciphertext",
+  );
+  await t.rejects(
+    () => aesGcm.decrypt(key, iv, sealed, random(4)),
+    /tag mismatch/i,
+    "Wrong additional data",
+  );
+});
+
+test("#AES-GCM uses the current bytes of a reused key buffer", async (t) => {
+  t.plan(2);
+  const crypto = await getCompatibleCrypto();
+  const key = random(32);
+  const iv = random(12);
+  const plaintext = random(20);
+  await crypto.aesGcm.encrypt(key, iv, plaintext);
+
+  new Uint8Array(key).set(new Uint8Array(random(32)));
+  const sealed = await crypto.aesGcm.encrypt(key, iv, plaintext);
+  t.equals(
+    toHex(sealed),
+    toHex(await aesGcm.encrypt(key.slice(0), iv, plaintext)),
+    "Encrypted with the new key bytes",
+  );
+  t.equals(
+    toHex(await crypto.aesGcm.decrypt(key, iv, sealed)),
+    toHex(plaintext),
+    "Decrypted with the new key bytes",
+  );
+});
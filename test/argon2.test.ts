@@ -0,0 +1,45 @@
+import { argon2id } from "../src/argon2";
+import { toHex, test } from "./tests";
+
+test("#Argon2id RFC 9106 section 5.3", (t) => {
+  t.plan(1);
+  const tag = argon2id(new Uint8Array(32).fill(1), new Uint8Array(16).fill(2), {
+    memoryKiB: 32,
+    iterations: 3,
+    parallelism: 4,
+    tagLength: 32,
+    secret: new Uint8Array(8).fill(3),
+    associatedData: new Uint8Array(12).fill(4),
+  });
+  t.equals(
+    toHex(tag),
+    "0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659",
+  );
+});
+
+test("#Argon2id parameters", (t) => {
+  t.plan(2);
+  const options = {
+    memoryKiB: 8,
+    iterations: 1,
+    parallelism: 1,
+    tagLength: 32,
+  };
+  t.throws(
+    () =>
+      argon2id(new Uint8Array(0), new Uint8Array(8), {
+        ...options,
+        parallelism: 2,
+      }),
+    /memory size/,
+    "Memory below 8 KiB per lane is rejected",
+  );
+  t.equals(
+    argon2id(new Uint8Array(0), new Uint8Array(8), {
+      ...options,
+      tagLength: 100,
+    }).length,
+    100,
+    "Tags longer than 64 bytes",
+  );
+});
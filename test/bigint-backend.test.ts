@@ -0,0 +1,88 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import wabt from "wabt";
+import { nativeBackend } from "../src/bigint-backend";
+import { SRPParameters } from "../src/parameters";
+import { SRPRoutines } from "../src/routines";
+import { SRPClientSession } from "../src/session-client";
+import { SRPServerSession } from "../src/session-server";
+import { createVerifierAndSalt, generateRandomBigInt } from "../src/utils";
+import { createWasmBackend, MONTGOMERY_WASM } from "../src/wasm-backend";
+import { test } from "./tests";
+
+test("#BigIntBackend wasm module is montgomery.wat", async (t) => {
+  t.plan(1);
+  const wat = join(__dirname, "../src/montgomery.wat");
+  const module = (await wabt()).parseWat(wat, readFileSync(wat, "utf8"));
+  t.equal(
+    Buffer.from(module.toBinary({}).buffer).toString("base64"),
+    MONTGOMERY_WASM,
+    "embedded bytes match a rebuild, run pnpm build:wasm after editing it",
+  );
+});
+
+test("#BigIntBackend wasm matches native arithmetic", async (t) => {
+  const wasm = await createWasmBackend();
+  for (const name of ["rfc5054-1024", "rfc5054-3072"] as const) {
+    const { N } = SRPParameters.getPrimeGroup(name);
+    const bytes = N.toString(16).length / 2;
+    for (let i = 0; i < 2; i++) {
+      const x = await generateRandomBigInt(bytes + 4);
+      const y = await generateRandomBigInt(bytes);
+      const pow = await generateRandomBigInt(2 * bytes);
+      t.equal(wasm.modPow(x, pow, N), nativeBackend.modPow(x, pow, N), name);
+      t.equal(wasm.modMul(x, y, N), nativeBackend.modMul(x, y, N), name);
+    }
+  }
+  t.end();
+});
+
+test("#BigIntBackend wasm edge cases", async (t) => {
+  const wasm = await createWasmBackend();
+  const [ZERO, ONE] = [BigInt(0), BigInt(1)];
+  const N = SRPParameters.getPrimeGroup("rfc5054-1024").N;
+  t.equal(wasm.modPow(BigInt(5), ZERO, N), ONE, "pow 0");
+  t.equal(wasm.modPow(ZERO, BigInt(5), N), ZERO, "base 0");
+  t.equal(wasm.modPow(N - ONE, BigInt(2), N), ONE, "(N - 1)^2");
+  t.equal(wasm.modMul(N, BigInt(5), N), ZERO, "multiple of N");
+  for (const mod of [1, 7, 8, 2 ** 32 - 1, 2 ** 32 + 1].map(BigInt)) {
+    t.equal(
+      wasm.modPow(BigInt(3), BigInt(1000), mod),
+      nativeBackend.modPow(BigInt(3), BigInt(1000), mod),
+      `3^1000 % ${mod}`,
+    );
+    t.equal(
+      wasm.modMul(BigInt(2 ** 40), BigInt(3), mod),
+      nativeBackend.modMul(BigInt(2 ** 40), BigInt(3), mod),
+      `2^40 * 3 % ${mod}`,
+    );
+  }
+  t.throws(() => wasm.modPow(BigInt(-1), ONE, N), /Invalid base/);
+  t.throws(() => wasm.modPow(ONE, BigInt(-1), N), /Invalid power/);
+  t.end();
+});
+
+test("#BigIntBackend wasm client with native server", async (t) => {
+  t.plan(2);
+  const parameters = new SRPParameters(
+    SRPParameters.getPrimeGroup("rfc5054-3072"),
+  );
+  const wasmRoutines = new SRPRoutines(parameters, {
+    backend: await createWasmBackend(),
+  });
+  const nativeRoutines = new SRPRoutines(parameters);
+  t.equal(wasmRoutines.backend.name, "wasm");
+
+  const { s, v } = await createVerifierAndSalt(wasmRoutines, "alice", "pw");
+  const server = await new SRPServerSession(nativeRoutines).step1(
+    "alice",
+    s,
+    v,
+  );
+  const client = await (
+    await new SRPClientSession(wasmRoutines).step1("alice", "pw")
+  ).step2(s, server.B);
+  const { M2, S } = await server.step2(client.A, client.M1);
+  await client.step3(M2);
+  t.equal(client.S, S, "premaster secret");
+});
@@ -0,0 +1,38 @@
+import { createHash } from "crypto";
+import { blake2b } from "../src/blake2b";
+import { toHex, test } from "./tests";
+
+test("#BLAKE2b RFC 7693 appendix A", (t) => {
+  t.plan(1);
+  t.equals(
+    toHex(blake2b(new TextEncoder().encode("abc"))),
+    "ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1" +
+      "7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923",
+  );
+});
+
+test("#BLAKE2b matches node", (t) => {
+  const lengths = [0, 1, 127, 128, 129, 256, 1000];
+  t.plan(lengths.length);
+  for (const length of lengths) {
+    const data = Uint8Array.from({ length }, (_, i) => (i * 7) & 0xff);
+    t.equals(
+      toHex(blake2b(data)),
+      createHash("blake2b512").update(data).digest("hex"),
+      `${length} bytes`,
+    );
+  }
+});
+
+test("#BLAKE2b keyed and short outputs", (t) => {
+  t.plan(3);
+  // first keyed vector of the BLAKE2 reference test suite
+  const key = Uint8Array.from({ length: 64 }, (_, i) => i);
+  t.equals(
+    toHex(blake2b(new Uint8Array(0), 64, key)),
+    "10ebb67700b1868efb4417987acf4690ae9d972fb7a590c2f02871799aaa4786" +
+      "b5e996e8f0f4eb981fc214b005f42d2ff4233499391653df7aefcbc13fc51568",
+  );
+  t.equals(blake2b(new Uint8Array(0), 32).length, 32, "Output length");
+  t.throws(() => blake2b(new Uint8Array(0), 65), /output length/);
+});
@@ -0,0 +1,71 @@
+import { chacha20, chacha20Poly1305, poly1305 } from "../src/chacha20-poly1305";
+import { fromHex, toHex, test } from "./tests";
+
+const sunscreen = new TextEncoder().encode(
+  "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.",
+);
+
+test("#ChaCha20 RFC 8439 section 2.4.2", (t) => {
+  t.plan(1);
+  const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+  t.equals(
+    toHex(chacha20(key, 1, fromHex("000000000000004a00000000"), sunscreen)),
+    "6e2e359a2568f98041ba0728dd0d6981e97e7aec1d4360c20a27afccfd9fae0b" +
+      "f91b65c5524733ab8f593dabcd62b3571639d624e65152ab8f530c359f0861d8" +
+      "07ca0dbf500d6a6156a38e088a22b65e52bc514d16ccf806818ce91ab7793736" +
+      "5af90bbf74a35be6b40b8eedf2785e42874d",
+    "Ciphertext",
+  );
+});
+
+test("#Poly1305 RFC 8439 section 2.5.2", (t) => {
+  t.plan(1);
+  t.equals(
+    toHex(
+      poly1305(
+        fromHex(
+          "85d6be7857556d337f4452fe42d506a80103808afb0db2fd4abff6af4149f51b",
+        ),
+        new TextEncoder().encode("Cryptographic Forum Research Group"),
+      ),
+    ),
+    "a8061dc1305136c6c22b8baf0c0127a9",
+    "Tag",
+  );
+});
+
+test("#ChaCha20-Poly1305 RFC 8439 section 2.8.2", async (t) => {
+  t.plan(3);
+  const key = Uint8Array.from({ length: 32 }, (_, i) => 0x80 + i).buffer;
+  const nonce = fromHex("070000004041424344454647").buffer;
+  const aad = fromHex("50515253c0c1c2c3c4c5c6c7").buffer;
+
+  const sealed = await chacha20Poly1305.encrypt(
+    key,
+    nonce,
+    sunscreen.slice().buffer,
+    aad,
+  );
+  t.equals(
+    toHex(sealed),
+    "d31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d6" +
+      "3dbea45e8ca9671282fafb69da92728b1a71de0a9e060b2905d6a5b67ecd3b36" +
+      "92ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc" +
+      "3ff4def08e4b7a9de576d26586cec64b6116" +
+      "1ae10b594f09e26a7e902ecbd0600691",
+    "Ciphertext and tag",
+  );
+  t.deepEqual(
+    new Uint8Array(await chacha20Poly1305.decrypt(key, nonce, sealed, aad)),
+    sunscreen,
+    "Decrypts",
+  );
+
+  const tampered = new Uint8Array(sealed.slice(0));
+  tampered[0] ^= 1;
+  await t.rejects(
+    () => chacha20Poly1305.decrypt(key, nonce, tampered.buffer, aad),
+    /tag mismatch/i,
+    "Tampered ciphertext is rejected",
+  );
+});
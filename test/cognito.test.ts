@@ -0,0 +1,134 @@
+import {
+  CognitoClientSession,
+  CognitoRoutines,
+  formatCognitoTimestamp,
+} from "../src/cognito";
+import { test } from "./tests";
+
+// challenge and response of USER_SRP_AUTH generated with pycognito's
+// algorithm (a port of AuthenticationHelper of amazon-cognito-identity-js),
+// not captured from an exchange with Cognito
+const USER_POOL_ID = "eu-west-1_Ex4mpLe01";
+const PASSWORD = "correct horse battery staple";
+const a = BigInt(
+  "0x" +
+    "3c0b29739b2fc7f21d84849060014718f06e71a8eb8a971f6a87707262c8c6e5" +
+    "c9057dfcd2f50af41044a944731bbf113199c48781a478a8e7b91e1c64d0cb54" +
+    "6bb0056d3eb0bb3e25c1ab79560c5ad6efb886f9804fc87aa2c2ade33bae8fd6" +
+    "923d88fa0a852e175ac5d6194a65b3bb4677472e86efc5e2f97508e4dcb88724",
+);
+const SRP_A =
+  "332c896457af62452525e6e8aa13662d84e0d30ca6448f39b3a1a6d852acd110" +
+  "c4bcaf8cae5fb213cc2b7428cceb2f37b277b77934f48507f828ccecb6930414" +
+  "dea8ae8f8d233d53adbd0ba59743fb5ece5175abf336c0c5b84e3758de4354f0" +
+  "9c70b232506b39425cf239d0b7e049299d5327d53c46aac3403b7b5a853eae16" +
+  "658e56eb5cf19f119abc4374904d801f83ad183d50ff72b491eb8254336d79c9" +
+  "b0bc3aecc6a3b950f58fd1abdcec8ab9669faa66c1cf545026c1a2f78763ed9d" +
+  "6a1d3a491350204bf1ccb325a1d31f77fbf5b9e49b8abcde49437ae86a35b298" +
+  "60be8d9151bb52304561a5c46486a901a92aff3104cbd6bb44fcc386d44299f8" +
+  "ddc6a9203a7beb67c49b840bba8e70e87618032f98bf2c74090bee7452f06c38" +
+  "a48954c88e528adce67b37ee9fad630466cdb6fc4b01869800a5769d6067f59d" +
+  "2b8fd7acade9d862b0329711cb7530707ad109d6691fc56ed121b3fc2558135c" +
+  "7c98c8573831dc64dedf28d16b20ad6323cc6956670e11c816e13e2fa7ccbd6";
+const CHALLENGE = {
+  SALT: "f363479ad69a090b258277ec8fba6f99",
+  SRP_B:
+    "f8c8cb8a55db0cd81ff2f62f3ad9750c59f1d361952ed3b8c946cc023247672f" +
+    "055c76846f2cc68a0b8fcbf35114a50f4c1e296b97abdabaccc35616fff3c335" +
+    "bcebcb0d9d07d40d39488e7eb1b6a94d83a0e0e01489ea5899d91c91061a8980" +
+    "93f3a14d06adc30144fc1986003e663c98c770a3bc8742282354740e7f9f3580" +
+    "ab65bdc9abc4d02c7f4f42a4093ca8b1f992eb185c68c1bdc3d419460c73660d" +
+    "a1379ae29fd2739fb4a2e21b5adb3b7daa955a7c55926f6539d7fe8448aeb387" +
+    "fa991661001f94937a6a3a3a6f8212c272020fbbffdcd2b4203bde6dd0d8d10d" +
+    "0924f21f93155680686c0ed5f56d675136de906aa43494a9a5f4d5dd3674feb6" +
+    "6378ad48ec8c60741157560a4aca968c6ede6053275368a36d6c23edb209f7ae" +
+    "ab49271ed6584e3cfa4bb80e00ef9f8da7205f3a68e7f72d8b4b75ee488ce4ec" +
+    "3cad5fba692448b8a2f27fa79c6f123cc112e58a43bde96b15c128a0ed6e068b" +
+    "586fd554cfad581ce434edc35e312680b746a0afd7135e04fcd7f2719a296fa5",
+  SECRET_BLOCK:
+    "dg0ZGUpIRCYCPPdgO2/Yo38KxNbJGN/EDWsuW3CYEkDYdBFWSXwUZeIRjpp5NsJZ" +
+    "pkOCMwz2iXisoP//t+wiWvMFdqIW11kQI+xRB7VJ0Npod9leCubUkaqbNBMSBPdJ" +
+    "P/ZB6sL4LLlpP1PfF85RfblIi3pNVIUZycM+qmn3dAvA/+4=",
+  USER_ID_FOR_SRP: "6f2a3b9c-1d4e-4f5a-8b7c-0d1e2f3a4b5c",
+};
+const DATE = new Date("2024-01-02T03:04:05Z");
+const RESPONSES = {
+  USERNAME: "6f2a3b9c-1d4e-4f5a-8b7c-0d1e2f3a4b5c",
+  PASSWORD_CLAIM_SECRET_BLOCK: CHALLENGE.SECRET_BLOCK,
+  PASSWORD_CLAIM_SIGNATURE: "Zws0OSWcPROM+JnpcphHGm5zgVlyr3M0w59nDbXnC4g=",
+  TIMESTAMP: "Tue Jan 2 03:04:05 UTC 2024",
+};
+
+class RecordedCognitoRoutines extends CognitoRoutines {
+  public async generatePrivateValue(): Promise<bigint> {
+    return a;
+  }
+}
+
+test("#Cognito recorded challenge", async (t) => {
+  const routines = new RecordedCognitoRoutines(USER_POOL_ID);
+  t.equals(routines.poolName, "Ex4mpLe01");
+  // the multiplier of every Cognito client
+  t.equals(
+    (await routines.computeK()).toString(16),
+    "538282c4354742d7cbbde2359fcf67f9f5b3a6b08791e5011b43b8a5b66d9ee6",
+    "k",
+  );
+
+  const session = await new CognitoClientSession(routines).step1();
+  t.equals(session.SRP_A, SRP_A, "SRP_A");
+  t.deepEquals(
+    await session.step2(PASSWORD, CHALLENGE, DATE),
+    RESPONSES,
+    "ChallengeResponses",
+  );
+  t.notEquals(
+    (await session.step2("wrong password", CHALLENGE, DATE))
+      .PASSWORD_CLAIM_SIGNATURE,
+    RESPONSES.PASSWORD_CLAIM_SIGNATURE,
+    "wrong password",
+  );
+  t.end();
+});
+
+test("#Cognito authentication key", async (t) => {
+  const routines = new CognitoRoutines(USER_POOL_ID);
+  const u = await routines.computeU(
+    BigInt("0x" + SRP_A),
+    BigInt("0x" + CHALLENGE.SRP_B),
+  );
+  t.equals(
+    u.toString(16),
+    "348d9ecf7d9de2dcc6f1c12f1b541e6b73e7bcd8826c4ee57d028177fd96864a",
+    "u",
+  );
+  t.end();
+});
+
+test("#Cognito timestamps", (t) => {
+  t.equals(formatCognitoTimestamp(DATE), "Tue Jan 2 03:04:05 UTC 2024");
+  t.equals(
+    formatCognitoTimestamp(new Date("2023-11-30T23:59:09Z")),
+    "Thu Nov 30 23:59:09 UTC 2023",
+  );
+  t.end();
+});
+
+test("#Cognito invalid input", async (t) => {
+  t.throws(
+    () => new CognitoRoutines("eu-west-1"),
+    /Invalid Cognito user pool id/,
+  );
+  const session = await new CognitoClientSession(
+    new CognitoRoutines(USER_POOL_ID),
+  ).step1();
+  await t.rejects(
+    session.step2(PASSWORD, { ...CHALLENGE, SRP_B: "not hex" }),
+    /Invalid Cognito challenge parameter SRP_B/,
+  );
+  await t.rejects(
+    session.step2(PASSWORD, { ...CHALLENGE, SRP_B: "0" }),
+    /Invalid Server public value \(B\)/,
+  );
+  t.end();
+});
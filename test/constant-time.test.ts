@@ -0,0 +1,58 @@
+import {
+  constantTimeEqual,
+  constantTimeEqualBigInt,
+} from "../src/constant-time";
+import { SRPParameters } from "../src/parameters";
+import { SRPRoutines } from "../src/routines";
+import { SRPClientSession } from "../src/session-client";
+import { SRPServerSession } from "../src/session-server";
+import { createVerifierAndSalt } from "../src/utils";
+import { test } from "./tests";
+
+test("#ConstantTime byte arrays", (t) => {
+  t.plan(5);
+  const a = new Uint8Array([1, 2, 3, 4]);
+  t.ok(constantTimeEqual(a, new Uint8Array([1, 2, 3, 4])), "equal");
+  t.notOk(constantTimeEqual(a, new Uint8Array([0, 2, 3, 4])), "first byte");
+  t.notOk(constantTimeEqual(a, new Uint8Array([1, 2, 3, 5])), "last byte");
+  t.notOk(constantTimeEqual(a, new Uint8Array([1, 2, 3])), "length");
+  t.ok(constantTimeEqual(new Uint8Array(), new Uint8Array()), "empty");
+});
+
+test("#ConstantTime fixed length numbers", (t) => {
+  t.plan(6);
+  const n = BigInt("0x00ff00ff");
+  t.ok(constantTimeEqualBigInt(n, BigInt(0xff00ff), 4), "equal");
+  t.notOk(constantTimeEqualBigInt(n, n + BigInt(1), 4), "different");
+  t.ok(constantTimeEqualBigInt(BigInt(0), BigInt(0), 4), "zero");
+  t.notOk(
+    constantTimeEqualBigInt(n, n + (BigInt(1) << BigInt(32)), 4),
+    "doesn't fit in length bytes",
+  );
+  t.notOk(constantTimeEqualBigInt(BigInt(-1), BigInt(-1), 4), "negative");
+  t.ok(constantTimeEqualBigInt(BigInt(1), BigInt(1), 64), "leading zero bytes");
+});
+
+test("#ConstantTime evidence messages", async (t) => {
+  t.plan(3);
+  const routines = new SRPRoutines(new SRPParameters());
+  const { s, v } = await createVerifierAndSalt(routines, "alice", "secret");
+  const server = await new SRPServerSession(routines).step1("alice", s, v);
+  const client = await (
+    await new SRPClientSession(routines).step1("alice", "secret")
+  ).step2(s, server.B);
+
+  const hashLength = BigInt(1) << BigInt(512);
+  await t.rejects(
+    () => server.step2(client.A, client.M1 + hashLength),
+    /bad client credentials/i,
+    "M1 longer than the hash output",
+  );
+  const { M2 } = await server.step2(client.A, client.M1);
+  await t.rejects(
+    () => client.step3(M2 ^ BigInt(1)),
+    /bad server credentials/i,
+    "Modified M2",
+  );
+  await t.doesNotReject(() => client.step3(M2), "Matching M2");
+});
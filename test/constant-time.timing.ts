@@ -0,0 +1,147 @@
+/**
+ * Timing harness of the constant-time comparisons, after dudect: inputs of
+ * two classes, differing from a reference in the first or in the last byte,
+ * are compared in random order, and Welch's t-test tells whether the timings
+ * of the classes differ. Both classes compare unequal, so only an early exit
+ * can tell them apart.
+ * An early-exit comparison is measured as a control, the harness must detect
+ * it.
+ *
+ * Run locally with `pnpm test:timing`, shared CI machines are too noisy.
+ */
+import {
+  constantTimeEqual,
+  constantTimeEqualBigInt,
+} from "../src/constant-time";
+import { arrayBufferToBigInt } from "../src/utils";
+
+const SAMPLES = 20000;
+const CALLS_PER_SAMPLE = 20;
+// |t| above this means the classes are distinguishable (dudect uses 4.5)
+const THRESHOLD = 5;
+// samples slower than this quantile are dropped as interrupts and GC pauses
+const CROP_QUANTILE = 0.9;
+
+type Case<T> = {
+  name: string;
+  compare: (a: T, b: T) => boolean;
+  reference: T;
+  // an input differing from the reference in the first (class 0) or last
+  // (class 1) byte
+  input: (cls: 0 | 1) => T;
+  constantTime: boolean;
+};
+
+const earlyExitEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const randomBytes = (length: number): Uint8Array =>
+  globalThis.crypto.getRandomValues(new Uint8Array(length));
+
+const bytesCase = (
+  name: string,
+  compare: (a: Uint8Array, b: Uint8Array) => boolean,
+  length: number,
+  constantTime: boolean,
+): Case<Uint8Array> => {
+  const reference = randomBytes(length);
+  // a single buffer for both classes, their inputs only differ in content
+  const buffer = reference.slice();
+  return {
+    name,
+    compare,
+    reference,
+    input: (cls) => {
+      buffer[0] = reference[0] ^ (cls === 0 ? 0xff : 0);
+      buffer[length - 1] = reference[length - 1] ^ (cls === 1 ? 0xff : 0);
+      return buffer;
+    },
+    constantTime,
+  };
+};
+
+const bigIntCase = (length: number): Case<bigint> => {
+  const bytes = randomBytes(length);
+  bytes[0] |= 0x10;
+  const reference = arrayBufferToBigInt(bytes.buffer as ArrayBuffer);
+  const lengthBits = BigInt(8 * (length - 1));
+  return {
+    name: `constantTimeEqualBigInt, ${length} bytes`,
+    compare: (a, b) => constantTimeEqualBigInt(a, b, length),
+    reference,
+    input: (cls) =>
+      cls === 0
+        ? reference ^ (BigInt(0x0f) << lengthBits)
+        : reference ^ BigInt(0xff),
+    constantTime: true,
+  };
+};
+
+const welchT = (a: number[], b: number[]): number => {
+  const mean = (xs: number[]) => xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const variance = (xs: number[], m: number) =>
+    xs.reduce((sum, x) => sum + (x - m) ** 2, 0) / (xs.length - 1);
+  const [ma, mb] = [mean(a), mean(b)];
+  return (
+    (ma - mb) /
+    Math.sqrt(variance(a, ma) / a.length + variance(b, mb) / b.length)
+  );
+};
+
+function measure<T>({ compare, reference, input }: Case<T>): number {
+  const timings: [number[], number[]] = [[], []];
+  let sink = 0;
+  // warm up the JIT before measuring
+  for (let i = 0; i < SAMPLES; i++) {
+    sink += Number(compare(reference, input(i % 2 ? 0 : 1)));
+  }
+  for (let i = 0; i < SAMPLES; i++) {
+    const cls = Math.random() < 0.5 ? 0 : 1;
+    const value = input(cls);
+    const start = process.hrtime.bigint();
+    for (let j = 0; j < CALLS_PER_SAMPLE; j++) {
+      sink += Number(compare(reference, value));
+    }
+    timings[cls].push(Number(process.hrtime.bigint() - start));
+  }
+  if (sink < 0) {
+    console.log(sink);
+  }
+  const sorted = [...timings[0], ...timings[1]].sort((x, y) => x - y);
+  const limit = sorted[Math.floor(sorted.length * CROP_QUANTILE)];
+  const [firstTimings, lastTimings] = timings.map((xs) =>
+    xs.filter((x) => x <= limit),
+  );
+  return welchT(firstTimings, lastTimings);
+}
+
+const cases = [
+  bytesCase("constantTimeEqual, 16 bytes", constantTimeEqual, 16, true),
+  bytesCase("constantTimeEqual, 64 bytes", constantTimeEqual, 64, true),
+  bytesCase("constantTimeEqual, 4096 bytes", constantTimeEqual, 4096, true),
+  bigIntCase(64),
+  bytesCase("early exit (control), 4096 bytes", earlyExitEqual, 4096, false),
+] as Case<unknown>[];
+
+let failed = false;
+for (const testCase of cases) {
+  const t = measure(testCase);
+  const leaks = Math.abs(t) > THRESHOLD;
+  const ok = leaks !== testCase.constantTime;
+  failed ||= !ok;
+  console.log(
+    `${ok ? "ok" : "FAIL"} ${testCase.name}: t = ${t.toFixed(2)}${
+      leaks ? " (timing depends on the input)" : ""
+    }`,
+  );
+}
+process.exitCode = failed ? 1 : 0;
@@ -0,0 +1,133 @@
+import { SRPParameters } from "../src/parameters";
+import { SRPRoutines } from "../src/routines";
+import { SessionOptions } from "../src/crypto-keys";
+import { SRPClientSession } from "../src/session-client";
+import { SRPServerSession } from "../src/session-server";
+import { createVerifierAndSalt, generateRandomString } from "../src/utils";
+import { test } from "./tests";
+
+const routines = new SRPRoutines(new SRPParameters());
+
+async function handshake(options?: SessionOptions) {
+  const username = await generateRandomString(10);
+  const password = await generateRandomString(15);
+  const { s: salt, v: verifier } = await createVerifierAndSalt(
+    routines,
+    username,
+    password,
+  );
+  const serverStep1 = await new SRPServerSession(routines, options).step1(
+    username,
+    salt,
+    verifier,
+  );
+  const client = await (
+    await new SRPClientSession(routines, options).step1(username, password)
+  ).step2(salt, serverStep1.B);
+  const server = await serverStep1.step2(client.A, client.M1);
+  await client.step3(server.M2);
+  return { client, server, serverStep1 };
+}
+
+test("#CryptoKeys are non-extractable and shared by both sides", async (t) => {
+  t.plan(5);
+  const { subtle } = globalThis.crypto;
+  const { client, server } = await handshake();
+  const clientKeys = await client.cryptoKeys();
+  const serverKeys = await server.cryptoKeys();
+
+  t.deepEqual(
+    [clientKeys.clientToServer, clientKeys.hmac].map((key) => key.extractable),
+    [false, false],
+    "Keys are not extractable",
+  );
+  await t.rejects(
+    () => subtle.exportKey("raw", clientKeys.clientToServer),
+    undefined,
+    "Export fails",
+  );
+
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await subtle.encrypt(
+    { name: "AES-GCM", iv },
+    clientKeys.clientToServer,
+    new TextEncoder().encode("hello"),
+  );
+  t.equals(
+    new TextDecoder().decode(
+      await subtle.decrypt(
+        { name: "AES-GCM", iv },
+        serverKeys.clientToServer,
+        ciphertext,
+      ),
+    ),
+    "hello",
+    "Server decrypts with its AES-GCM key",
+  );
+
+  const data = new TextEncoder().encode("token");
+  const signature = await subtle.sign("HMAC", clientKeys.hmac, data);
+  t.ok(
+    await subtle.verify("HMAC", serverKeys.hmac, signature, data),
+    "Server verifies the client HMAC",
+  );
+  t.equals(
+    (clientKeys.hmac.algorithm as HmacKeyAlgorithm).hash.name,
+    "SHA-512",
+    "HMAC uses the session hash",
+  );
+});
+
+test("#CryptoKeys HMAC key is out of reach of the exporter", async (t) => {
+  t.plan(1);
+  const { subtle } = globalThis.crypto;
+  const { client } = await handshake();
+  const data = new TextEncoder().encode("token");
+  const exported = await subtle.importKey(
+    "raw",
+    await client.exportKeyingMaterial("tssrp6a hmac", "", 64),
+    { name: "HMAC", hash: "SHA-512" },
+    false,
+    ["sign"],
+  );
+  t.notDeepEqual(
+    new Uint8Array(await subtle.sign("HMAC", exported, data)),
+    new Uint8Array(
+      await subtle.sign("HMAC", (await client.cryptoKeys()).hmac, data),
+    ),
+    "Exporter with the internal label gives another key",
+  );
+});
+
+test("#CryptoKeys concealed session secret", async (t) => {
+  t.plan(9);
+  const { client, server, serverStep1 } = await handshake({
+    concealSecret: true,
+  });
+
+  t.throws(() => client.S, /concealed/i, "Client S is not readable");
+  t.throws(() => JSON.stringify(client), /concealed/i, "Client state holds S");
+  t.throws(() => server.S, /concealed/i, "Server S is not readable");
+  t.throws(() => server.K, /concealed/i, "Server K is not readable");
+  t.throws(() => JSON.stringify(server), /concealed/i, "Server state holds S");
+  await t.rejects(
+    () => serverStep1.unsafeUnverifiedSessionKey(client.A),
+    /concealed/i,
+    "Unverified S is not readable",
+  );
+  await t.rejects(
+    () => client.sessionKeys(),
+    /concealed/i,
+    "Client session keys are not readable",
+  );
+  await t.rejects(
+    () => server.sessionKeys({ context: "api" }),
+    /concealed/i,
+    "Server session keys are not readable",
+  );
+  t.equals(
+    await server.decryptToString(await client.encrypt("hi")),
+    "hi",
+    "Encryption still works",
+  );
+});
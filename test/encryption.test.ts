@@ -1,8 +1,17 @@
+import { decrypt, decryptToString, encrypt } from "../src/encryption";
+import { ENCRYPTION_VERSION } from "../src/envelope";
 import { SRPParameters } from "../src/parameters";
 import { SRPRoutines } from "../src/routines";
 import { SRPClientSession } from "../src/session-client";
 import { SRPServerSession } from "../src/session-server";
-import { createVerifierAndSalt, generateRandomString } from "../src/utils";
+import {
+  bigIntToArrayBuffer,
+  createVerifierAndSalt,
+  generateRandomBigInt,
+  generateRandomString,
+  hash,
+  stringToArrayBuffer,
+} from "../src/utils";
 import { test } from "./tests";
 
 test("#Encryption - client encrypts, server decrypts", async (t) => {
@@ -38,23 +47,19 @@ test("#Encryption - client encrypts, server decrypts", async (t) => {
   const clientStep2 = await clientStep1.step2(salt, serverStep1.B);
 
   // Server step 2 (verify client)
-  const M2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
+  const serverStep2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
 
   // Client step 3 (verify server)
-  await clientStep2.step3(M2);
+  await clientStep2.step3(serverStep2.M2);
 
   // Now both have established secure session
   // Client encrypts
   const { iv, ciphertext } = await clientStep2.encrypt(testMessage);
-  t.ok(iv.byteLength === 16, "IV should be 16 bytes");
+  t.ok(iv.byteLength === 12, "IV should be 12 bytes");
   t.ok(ciphertext.byteLength > 0, "Ciphertext should not be empty");
 
   // Server decrypts
-  const decrypted = await serverStep1.decryptToString(
-    clientStep2.A,
-    iv,
-    ciphertext,
-  );
+  const decrypted = await serverStep2.decryptToString(iv, ciphertext);
   t.equals(decrypted, testMessage, "Decrypted message matches original");
 });
 
@@ -85,14 +90,11 @@ test("#Encryption - server encrypts, client decrypts", async (t) => {
     verifier,
   );
   const clientStep2 = await clientStep1.step2(salt, serverStep1.B);
-  const M2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
-  await clientStep2.step3(M2);
+  const serverStep2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
+  await clientStep2.step3(serverStep2.M2);
 
   // Server encrypts
-  const { iv, ciphertext } = await serverStep1.encrypt(
-    clientStep2.A,
-    serverMessage,
-  );
+  const { iv, ciphertext } = await serverStep2.encrypt(serverMessage);
   t.ok(ciphertext.byteLength > 0, "Ciphertext should not be empty");
 
   // Client decrypts
@@ -125,19 +127,15 @@ test("#Encryption - binary data (ArrayBuffer)", async (t) => {
     verifier,
   );
   const clientStep2 = await clientStep1.step2(salt, serverStep1.B);
-  const M2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
-  await clientStep2.step3(M2);
+  const serverStep2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
+  await clientStep2.step3(serverStep2.M2);
 
   // Encrypt binary data
   const { iv, ciphertext } = await clientStep2.encrypt(binaryData.buffer);
   t.ok(ciphertext.byteLength > 0, "Ciphertext should not be empty");
 
   // Decrypt
-  const decrypted = await serverStep1.decrypt(
-    clientStep2.A,
-    iv,
-    ciphertext,
-  );
+  const decrypted = await serverStep2.decrypt(iv, ciphertext);
   const decryptedArray = new Uint8Array(decrypted);
   t.deepEqual(
     Array.from(decryptedArray),
@@ -171,19 +169,156 @@ test("#Encryption - tampered ciphertext fails", async (t) => {
     verifier,
   );
   const clientStep2 = await clientStep1.step2(salt, serverStep1.B);
-  const M2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
-  await clientStep2.step3(M2);
+  const serverStep2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
+  await clientStep2.step3(serverStep2.M2);
 
   const { iv, ciphertext } = await clientStep2.encrypt(testMessage);
 
   // Tamper with ciphertext
   const tampered = new Uint8Array(ciphertext);
-  tampered[0] ^= 0xff;
+  tampered[1] ^= 0xff;
 
   // Should fail authentication
   await t.rejects(
-    () => serverStep1.decrypt(clientStep2.A, iv, tampered.buffer),
+    () => serverStep2.decrypt(iv, tampered.buffer),
     /authentication tag mismatch/i,
     "Tampered ciphertext should fail authentication",
   );
 });
+
+test("#Encryption - versioned AES-GCM envelope", async (t) => {
+  t.plan(3);
+
+  const S = await generateRandomBigInt(256);
+  const first = await encrypt(S, "same plaintext");
+  const second = await encrypt(S, "same plaintext");
+
+  t.deepEqual(
+    [first.version, first.algorithm],
+    [ENCRYPTION_VERSION, "A256GCM"],
+    "Envelope records version and algorithm",
+  );
+  t.notDeepEqual(
+    new Uint8Array(first.ciphertext),
+    new Uint8Array(second.ciphertext),
+    "Same plaintext encrypts differently",
+  );
+
+  await t.rejects(
+    () => decrypt(S, { ...first, version: 0xff }),
+    /unsupported envelope version/i,
+    "Unknown version is rejected",
+  );
+});
+
+/**
+ * Replicates the XOR stream cipher of earlier releases.
+ */
+async function legacyEncrypt(S: bigint, message: string) {
+  const params = new SRPParameters();
+  const label = (s: string) => stringToArrayBuffer(s);
+  const encKey = new Uint8Array(
+    await hash(params, bigIntToArrayBuffer(S), label("encryption")),
+  );
+  const macKey = await hash(
+    params,
+    bigIntToArrayBuffer(S),
+    label("authentication"),
+  );
+  const iv = new Uint8Array(16).map((_, i) => i * 7);
+  const encrypted = new Uint8Array(stringToArrayBuffer(message)).map(
+    (byte, i) => byte ^ encKey[i % encKey.length] ^ iv[i % iv.length],
+  );
+  const tag = new Uint8Array(
+    await hash(params, macKey, iv.buffer, encrypted.buffer),
+  ).slice(0, 16);
+  const ciphertext = new Uint8Array(encrypted.length + tag.length);
+  ciphertext.set(encrypted);
+  ciphertext.set(tag, encrypted.length);
+  return { iv: iv.buffer, ciphertext: ciphertext.buffer };
+}
+
+test("#Encryption - legacy XOR ciphertext needs explicit switch", async (t) => {
+  t.plan(3);
+
+  const S = await generateRandomBigInt(256);
+  const { iv, ciphertext } = await legacyEncrypt(S, "Old message");
+
+  await t.rejects(
+    () => decrypt(S, iv, ciphertext),
+    /legacy ciphertext rejected/i,
+    "Legacy ciphertext is rejected by default",
+  );
+  t.equals(
+    await decryptToString(S, iv, ciphertext, undefined, {
+      allowLegacy: true,
+    }),
+    "Old message",
+    "Legacy ciphertext decrypts with allowLegacy",
+  );
+
+  const tampered = new Uint8Array(ciphertext);
+  tampered[0] ^= 0xff;
+  await t.rejects(
+    () =>
+      decrypt(S, iv, tampered.buffer, undefined, {
+        allowLegacy: true,
+      }),
+    /authentication tag mismatch/i,
+    "Tampered legacy ciphertext fails authentication",
+  );
+});
+
+test("#Encryption - associated data is authenticated", async (t) => {
+  t.plan(4);
+
+  const S = await generateRandomBigInt(256);
+  const body = '{ "amount": 100 }';
+  const { iv, ciphertext } = await encrypt(S, body, "POST /api/transfer");
+
+  t.equals(
+    await decryptToString(S, iv, ciphertext, "POST /api/transfer"),
+    body,
+    "Decrypts with the same associated data",
+  );
+  await t.rejects(
+    () => decrypt(S, iv, ciphertext, "POST /api/refund"),
+    /authentication tag mismatch/i,
+    "Different associated data fails",
+  );
+  await t.rejects(
+    () => decrypt(S, iv, ciphertext),
+    /authentication tag mismatch/i,
+    "Missing associated data fails",
+  );
+
+  const binary = await encrypt(S, body, new Uint8Array([1, 2, 3]).buffer);
+  t.equals(
+    await decryptToString(
+      S,
+      binary.iv,
+      binary.ciphertext,
+      new Uint8Array([1, 2, 3]).buffer,
+    ),
+    body,
+    "Binary associated data",
+  );
+});
+
+test("#Encryption - ChaCha20-Poly1305 envelope", async (t) => {
+  t.plan(3);
+
+  const S = await generateRandomBigInt(256);
+  const envelope = await encrypt(S, "chacha", "aad", { algorithm: "C20P" });
+  t.equals(envelope.algorithm, "C20P", "Envelope records the algorithm");
+  t.equals(
+    await decryptToString(S, envelope, "aad"),
+    "chacha",
+    "Decrypts with the algorithm of the envelope",
+  );
+  await t.rejects(
+    () => decrypt(S, { ...envelope, algorithm: "A256GCM" }, "aad"),
+    /authentication tag mismatch/i,
+    "Algorithm is not interchangeable",
+  );
+});
@@ -0,0 +1,103 @@
+import { decryptToString, encrypt } from "../src/encryption";
+import {
+  EncryptedEnvelope,
+  parseEnvelope,
+  serializeEnvelope,
+} from "../src/envelope";
+import { EnvelopeFormatError } from "../src/errors";
+import { test } from "./tests";
+
+const key = new Uint8Array(32).fill(3).buffer;
+
+const bytesOf = (envelope: EncryptedEnvelope) => ({
+  ...envelope,
+  iv: Array.from(new Uint8Array(envelope.iv)),
+  ciphertext: Array.from(new Uint8Array(envelope.ciphertext)),
+});
+
+test("#Envelope roundtrip in every format", async (t) => {
+  t.plan(7);
+  const envelope = await encrypt(key, "payload", "aad", { keyId: "key-2024" });
+  t.equals(envelope.keyId, "key-2024", "Key id is stored");
+
+  const bytes = serializeEnvelope(envelope, "bytes");
+  const text = serializeEnvelope(envelope, "base64url");
+  const json = serializeEnvelope(envelope, "json");
+  t.ok(/^[A-Za-z0-9_-]+$/.test(text), "base64url has no padding");
+  t.deepEqual(
+    JSON.parse(JSON.stringify(json)),
+    json,
+    "JSON form survives JSON.stringify",
+  );
+
+  for (const parsed of [
+    parseEnvelope(bytes),
+    parseEnvelope(text),
+    parseEnvelope(json),
+  ]) {
+    t.deepEqual(bytesOf(parsed), bytesOf(envelope), "Parsed envelope matches");
+  }
+  t.equals(
+    await decryptToString(key, parseEnvelope(text), "aad"),
+    "payload",
+    "Parsed envelope decrypts",
+  );
+});
+
+test("#Envelope parsing is strict", async (t) => {
+  const envelope = await encrypt(key, "payload");
+  const bytes = new Uint8Array(serializeEnvelope(envelope, "bytes"));
+  const json = serializeEnvelope(envelope, "json");
+  const withByte = (index: number, value: number) => {
+    const copy = bytes.slice();
+    copy[index] = value;
+    return copy;
+  };
+
+  const malformed: [unknown, RegExp, string][] = [
+    [withByte(0, 2), /unsupported envelope version/i, "Unknown version"],
+    [withByte(1, 9), /unsupported algorithm/i, "Unknown algorithm id"],
+    [bytes.slice(0, 3 + 12 + 15), /too short/i, "Missing tag bytes"],
+    [bytes.slice(0, 2), /too short/i, "Truncated header"],
+    [withByte(2, 200), /too short/i, "Key id past the end"],
+    [serializeEnvelope(envelope, "base64url") + "=", /base64url/i, "Padding"],
+    ["ab+/", /base64url/i, "base64 alphabet"],
+    ["AQF", /base64url/i, "Non-canonical trailing bits"],
+    [{ ...json, alg: "A128GCM" }, /unsupported algorithm/i, "Unknown alg"],
+    [{ ...json, extra: 1 }, /unknown envelope field/i, "Unknown field"],
+    [{ ...json, iv: 12 }, /must be strings/i, "Wrong field type"],
+    [{ ...json, kid: "" }, /key id/i, "Empty key id"],
+    [{ ...json, iv: json.ct }, /iv length/i, "Wrong IV length"],
+  ];
+  t.plan(malformed.length * 2);
+
+  for (const [input, message, description] of malformed) {
+    try {
+      parseEnvelope(input as Parameters<typeof parseEnvelope>[0]);
+      t.fail(description);
+      t.fail(description);
+    } catch (error) {
+      t.ok(error instanceof EnvelopeFormatError, `${description}: error type`);
+      t.match((error as Error).message, message, description);
+    }
+  }
+});
+
+test("#Envelope header is authenticated", async (t) => {
+  t.plan(3);
+  const envelope = await encrypt(key, "payload", "aad", { keyId: "key-2024" });
+  const json = serializeEnvelope(envelope, "json");
+
+  await t.rejects(
+    () => decryptToString(key, parseEnvelope({ ...json, kid: "key-2025" })),
+    /authentication tag mismatch/i,
+    "Changed key id fails to decrypt",
+  );
+  const { keyId, ...withoutKeyId } = envelope;
+  t.equals(keyId, "key-2024");
+  await t.rejects(
+    () => decryptToString(key, withoutKeyId, "aad"),
+    /authentication tag mismatch/i,
+    "Removed key id fails to decrypt",
+  );
+});
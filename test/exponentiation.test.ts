@@ -0,0 +1,73 @@
+import { benchmarkModPow } from "../src/benchmark";
+import {
+  FixedBaseTable,
+  generatorTable,
+  modPowSlidingWindow,
+  modPowSquareAndMultiply,
+} from "../src/exponentiation";
+import { SRPParameters } from "../src/parameters";
+import { generateRandomBigInt } from "../src/utils";
+import { test } from "./tests";
+
+const parameters = new SRPParameters(
+  SRPParameters.getPrimeGroup("rfc5054-1024"),
+);
+const { N, g } = parameters.primeGroup;
+
+test("#Exponentiation matches square-and-multiply", async (t) => {
+  const table = new FixedBaseTable(g, N);
+  for (const bytes of [1, 3, 10, 32, 128, 200]) {
+    const x = (await generateRandomBigInt(128)) % N;
+    const pow = await generateRandomBigInt(bytes);
+    const expected = modPowSquareAndMultiply(x, pow, N);
+    t.equal(modPowSlidingWindow(x, pow, N), expected, `${bytes} bytes`);
+    t.equal(
+      table.pow(pow),
+      modPowSquareAndMultiply(g, pow, N),
+      `fixed base, ${bytes} bytes`,
+    );
+  }
+  t.end();
+});
+
+test("#Exponentiation edge cases", (t) => {
+  const ZERO = BigInt(0);
+  const ONE = BigInt(1);
+  const table = new FixedBaseTable(BigInt(3), BigInt(1000));
+  for (const pow of [0, 1, 2, 31, 32, 33, 1023, 1024].map(BigInt)) {
+    const expected = modPowSquareAndMultiply(BigInt(3), pow, BigInt(1000));
+    t.equal(modPowSlidingWindow(BigInt(3), pow, BigInt(1000)), expected);
+    t.equal(table.pow(pow), expected, `3^${pow} % 1000`);
+  }
+  t.equal(modPowSlidingWindow(N + g, BigInt(5), N), g ** BigInt(5) % N);
+  t.equal(modPowSlidingWindow(ZERO, BigInt(7), N), ZERO, "0^7");
+  t.equal(modPowSlidingWindow(BigInt(5), BigInt(7), ONE), ZERO, "mod 1");
+  t.end();
+});
+
+test("#Exponentiation generator tables are cached per parameters", (t) => {
+  t.plan(3);
+  t.equal(generatorTable(parameters), generatorTable(parameters));
+  t.notEqual(
+    generatorTable(parameters),
+    generatorTable(new SRPParameters(parameters.primeGroup)),
+  );
+  t.equal(generatorTable(parameters).base, g);
+});
+
+test("#Exponentiation benchmark", async (t) => {
+  t.plan(4);
+  const result = await benchmarkModPow(parameters, {
+    exponentBits: 256,
+    durationMs: 20,
+  });
+  t.equal(result.bits, 1024);
+  t.equal(result.exponentBits, 256);
+  t.ok(
+    [result.squareAndMultiply, result.slidingWindow, result.fixedBase].every(
+      (ops) => ops > 0,
+    ),
+    "ops/sec of all implementations",
+  );
+  t.equal(result.fixedBaseSpeedup, result.fixedBase / result.squareAndMultiply);
+});
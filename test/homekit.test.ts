@@ -0,0 +1,262 @@
+import { createHmac, hkdfSync } from "crypto";
+import { TLV8FormatError } from "../src/errors";
+import {
+  decodePairSetupMessage,
+  encodePairSetupMessage,
+  HOMEKIT_PAIR_SETUP_USERNAME,
+  HOMEKIT_TLV_ERRORS,
+  HomeKitRoutines,
+} from "../src/homekit";
+import { SRPSecurityPolicy } from "../src/policy";
+import { SRPClientSession } from "../src/session-client";
+import { SRPServerSession } from "../src/session-server";
+import { createVerifier, createVerifierAndSalt } from "../src/utils";
+import { toHex, test } from "./tests";
+
+// SRP test vectors of the HAP specification: the inputs of RFC 5054
+// appendix B with the 3072 bits group and SHA-512, values checked against
+// fast-srp-hap (the SRP implementation of HAP-NodeJS)
+const I = "alice";
+const P = "password123";
+const s = BigInt("0xBEB25379D1A8581EB5A727673A2441EE");
+const a = BigInt(
+  "0x60975527035CF2AD1989806F0407210BC81EDC04E2762A56AFD529DDDA2D4393",
+);
+const b = BigInt(
+  "0xE487CB59D31AC550471E81F00F6928E01DDA08E974A004F49E61F5D105284D20",
+);
+const expected = {
+  k:
+    "a9c2e2559bf0ebb53f0cbbf62282906bede7f2182f00678211fbd5bde5b28503" +
+    "3a4993503b87397f9be5ec02080fedbc0835587ad039060879b8621e8c3659e0",
+  x:
+    "b149ecb0946b0b206d77e73d95deb7c41bd12e86a5e2eea3893d5416591a002f" +
+    "f94bfea384dc0e1c550f7ed4d5a9d2ad1f1526f01c56b5c10577730cc4a4d709",
+  v:
+    "9b5e061701ea7aeb39cf6e3519655a853cf94c75caf2555ef1faf759bb79cb47" +
+    "7014e04a88d68ffc05323891d4c205b8de81c2f203d8fad1b24d2c109737f1be" +
+    "bbd71f912447c4a03c26b9fad8edb3e780778e302529ed1ee138ccfc36d4ba31" +
+    "3cc48b14ea8c22a0186b222e655f2df5603fd75df76b3b08ff8950069add03a7" +
+    "54ee4ae88587cce1bfde36794dbae4592b7b904f442b041cb17aebad1e3aebe3" +
+    "cbe99de65f4bb1fa00b0e7af06863db53b02254ec66e781e3b62a8212c86beb0" +
+    "d50b5ba6d0b478d8c4e9bbcec21765326fbd14058d2bbde2c33045f03873e539" +
+    "48d78b794f0790e48c36aed6e880f557427b2fc06db5e1e2e1d7e661ac482d18" +
+    "e528d7295ef7437295ff1a72d402771713f16876dd050ae5b7ad53ccb90855c9" +
+    "3956648358adfd966422f52498732d68d1d7fbef10d78034ab8dcb6f0fcf885c" +
+    "c2b2ea2c3e6ac86609ea058a9da8cc63531dc915414df568b09482ddac1954de" +
+    "c7eb714f6ff7d44cd5b86f6bd115810930637c01d0f6013bc9740fa2c633ba89",
+  A:
+    "fab6f5d2615d1e323512e7991cc37443f487da604ca8c9230fcb04e541dce628" +
+    "0b27ca4680b0374f179dc3bdc7553fe62459798c701ad864a91390a28c93b644" +
+    "adbf9c00745b942b79f9012a21b9b78782319d83a1f8362866fbd6f46bfc0ddb" +
+    "2e1ab6e4b45a9906b82e37f05d6f97f6a3eb6e182079759c4f6847837b62321a" +
+    "c1b4fa68641fcb4bb98dd697a0c73641385f4bab25b793584cc39fc8d48d4bd8" +
+    "67a9a3c10f8ea12170268e34fe3bbe6ff89998d60da2f3e4283cbec1393d52af" +
+    "724a57230c604e9fbce583d7613e6bffd67596ad121a8707eec4694495703368" +
+    "6a155f644d5c5863b48f61bdbf19a53eab6dad0a186b8c152e5f5d8cad4b0ef8" +
+    "aa4ea5008834c3cd342e5e0f167ad04592cd8bd279639398ef9e114dfaaab919" +
+    "e14e850989224ddd98576d79385d2210902e9f9b1f2d86cfa47ee244635465f7" +
+    "1058421a0184be51dd10cc9d079e6f1604e7aa9b7cf7883c7d4ce12b06ebe160" +
+    "81e23f27a231d18432d7d1bb55c28ae21ffcf005f57528d15a88881bb3bbb7fe",
+  B:
+    "40f57088a482d4c7733384fe0d301fddca9080ad7d4f6fdf09a01006c3cb6d56" +
+    "2e41639ae8fa21de3b5dba7585b275589bdb279863c562807b2b99083cd1429c" +
+    "dbe89e25bfbd7e3cad3173b2e3c5a0b174da6d5391e6a06e465f037a40062548" +
+    "39a56bf76da84b1c94e0ae208576156fe5c140a4ba4ffc9e38c3b07b88845fc6" +
+    "f7ddda93381fe0ca6084c4cd2d336e5451c464ccb6ec65e7d16e548a273e8262" +
+    "84af2559b6264274215960fff47bdd63d3aff064d6137af769661c9d4fee4738" +
+    "2603c88eaa0980581d07758461b777e4356dda5835198b51feea308d70f75450" +
+    "b71675c08c7d8302fd7539dd1ff2a11cb4258aa70d234436aa42b6a0615f3f91" +
+    "5d55cc3b966b2716b36e4d1a06ce5e5d2ea3bee5a1270e8751da45b60b997b0f" +
+    "fdb0f9962fee4f03bee780ba0a845b1d9271421783ae6601a61ea2e342e4f2e8" +
+    "bc935a409ead19f221bd1b74e2964dd19fc845f60efc09338b60b6b256d8cac8" +
+    "89cca306cc370a0b18c8b886e95da0af5235fef4393020d2b7f3056904759042",
+  u:
+    "3ae5f3c3fa9eff1a50d7dbb8d2f60a1ea66ea712d50ae976ee34641a1cd0e51c" +
+    "4683da383e8595d6cb56a15d5fbc7543e07fbddd316217e01a391a18ef06dff",
+  S:
+    "f1036fecd017c8239c0d5af7e0fcf0d408b009e36411618a60b23aabbfc38339" +
+    "7268231214baacdc94ca1c53f442fb51c1b027c318ae238e16414d60d1881b66" +
+    "486ade10ed02ba33d098f6ce9bcf1bb0c46ca2c47f2f174c59a9c61e2560899b" +
+    "83ef61131e6fb30b714f4e43b735c9fe6080477c1b83e4093e4d456b9bca492c" +
+    "f9339d45bc42e67ce6c02c243e49f5da42a869ec855780e84207b8a1ea6501c4" +
+    "78aac0dfd3d22614f531a00d826b7954ae8b14a985a429315e6dd3664cf47181" +
+    "496a94329cde8005cae63c2f9ca4969bfe84001924037c446559bdbb9db9d4dd" +
+    "142fbcd75eef2e162c843065d99e8f05762c4db7abd9db203d41ac85a58c05bd" +
+    "4e2dbf822a934523d54e0653d376ce8b56dcb4527dddc1b994dc7509463a7468" +
+    "d7f02b1beb1685714ce1dd1e71808a137f788847b7c6b7bfa1364474b3b7e894" +
+    "78954f6a8e68d45b85a88e4ebfec13368ec0891c3bc86cf50097880178d86135" +
+    "e728723458538858d715b7b247406222c1019f53603f016952d497100858824c",
+  K:
+    "5cbc219db052138ee1148c71cd4498963d682549ce91ca24f098468f06015beb" +
+    "6af245c2093f98c3651bca83ab8cab2b580bbf02184fefdf26142f73df95ac50",
+  M1:
+    "5f7c14ab57ed0e94fd1d78c6b4dd09ed7e340b7e05d419a9fd760f6b35e523d1" +
+    "310777a1ae1d2826f596f3a85116cc457c7c964d4f44ded5559da818c88b617f",
+  M2:
+    "2fa0e81f5cb73b88fa0964270f321dd641f2227a5d805c40f1bfe96aaf6a19ff" +
+    "ce8e23287965a39eab9d5a02215f89e128177ed2c4f103e655a045531bcbf7ad",
+};
+
+const routinesWithPrivateValue = (value: bigint) =>
+  new (class extends HomeKitRoutines {
+    public async generatePrivateValue(): Promise<bigint> {
+      return value;
+    }
+  })(undefined, {
+    // the HAP vector's private value a has 255 bits, below the 256 bits of
+    // minPrivateValueBits that STRICT's checkPrivateValue requires
+    policy: SRPSecurityPolicy.LEGACY,
+  });
+
+test("#HomeKit HAP SRP test vectors", async (t) => {
+  t.plan(11);
+  const clientRoutines = routinesWithPrivateValue(a);
+  const serverRoutines = routinesWithPrivateValue(b);
+
+  t.equals((await clientRoutines.computeK()).toString(16), expected.k, "k");
+  t.equals(
+    (await clientRoutines.computeX(I, s, P)).toString(16),
+    expected.x,
+    "x",
+  );
+  const v = await createVerifier(clientRoutines, I, s, P);
+  t.equals(v.toString(16), expected.v, "v");
+
+  const server = await new SRPServerSession(serverRoutines).step1(I, s, v);
+  const client = await (
+    await new SRPClientSession(clientRoutines).step1(I, P)
+  ).step2(s, server.B);
+  t.equals(client.A.toString(16), expected.A, "A");
+  t.equals(server.B.toString(16), expected.B, "B");
+  t.equals(
+    (await clientRoutines.computeU(client.A, server.B)).toString(16),
+    expected.u,
+    "u",
+  );
+  t.equals(client.S.toString(16), expected.S, "S");
+  t.equals(
+    toHex(await clientRoutines.computeSharedKey(client.S)),
+    expected.K,
+    "K",
+  );
+  t.equals(client.M1.toString(16), expected.M1, "M1");
+  const { M2 } = await server.step2(client.A, client.M1);
+  t.equals(M2.toString(16), expected.M2, "M2");
+  await client.step3(M2);
+  t.pass("client verified the accessory");
+});
+
+test("#HomeKit pair-setup with a setup code", async (t) => {
+  const routines = new HomeKitRoutines();
+  const setupCode = "031-45-154";
+  const { s, v } = await createVerifierAndSalt(
+    routines,
+    HOMEKIT_PAIR_SETUP_USERNAME,
+    setupCode,
+  );
+  t.ok(s < BigInt(2) ** BigInt(128), "16 bytes salt");
+
+  const accessory = await new SRPServerSession(routines).step1(
+    HOMEKIT_PAIR_SETUP_USERNAME,
+    s,
+    v,
+  );
+  // M1 to M4 through TLV8
+  const m1 = decodePairSetupMessage(
+    encodePairSetupMessage({ state: 1, method: 0 }),
+  );
+  t.deepEquals(m1, { state: 1, method: 0 }, "M1");
+  const m2 = decodePairSetupMessage(
+    encodePairSetupMessage({ state: 2, salt: s, publicKey: accessory.B }),
+  );
+  const controller = await (
+    await new SRPClientSession(routines).step1(
+      HOMEKIT_PAIR_SETUP_USERNAME,
+      setupCode,
+    )
+  ).step2(m2.salt!, m2.publicKey!);
+  const m3 = decodePairSetupMessage(
+    encodePairSetupMessage({
+      state: 3,
+      publicKey: controller.A,
+      proof: controller.M1,
+    }),
+  );
+  const { M2 } = await accessory.step2(m3.publicKey!, m3.proof!);
+  const m4 = decodePairSetupMessage(
+    encodePairSetupMessage({ state: 4, proof: M2 }),
+  );
+  await controller.step3(m4.proof!);
+  t.pass("paired");
+
+  const K = Buffer.from(await routines.computeSharedKey(controller.S));
+  t.equals(
+    toHex(await routines.computePairSetupEncryptionKey(controller.S)),
+    Buffer.from(
+      hkdfSync(
+        "sha512",
+        K,
+        "Pair-Setup-Encrypt-Salt",
+        "Pair-Setup-Encrypt-Info",
+        32,
+      ),
+    ).toString("hex"),
+    "M5 encryption key",
+  );
+  t.end();
+});
+
+test("#HomeKit pair-setup messages", (t) => {
+  t.deepEquals(
+    Array.from(encodePairSetupMessage({ state: 1, method: 0 })),
+    [0x06, 0x01, 0x01, 0x00, 0x01, 0x00],
+    "M1 bytes",
+  );
+
+  // public keys are padded to 384 bytes and split into 255 + 129 bytes
+  const m3 = encodePairSetupMessage({
+    state: 3,
+    publicKey: BigInt(1),
+    proof: BigInt(2),
+  });
+  t.equals(m3.length, 3 + 2 + 255 + 2 + 129 + 2 + 64);
+  t.deepEquals(Array.from(m3.subarray(3, 5)), [0x03, 255]);
+  t.deepEquals(Array.from(m3.subarray(260, 262)), [0x03, 129]);
+  t.deepEquals(decodePairSetupMessage(m3), {
+    state: 3,
+    publicKey: BigInt(1),
+    proof: BigInt(2),
+  });
+
+  const encryptedData = createHmac("sha512", "key").update("M5").digest();
+  t.deepEquals(
+    decodePairSetupMessage(encodePairSetupMessage({ state: 5, encryptedData }))
+      .encryptedData,
+    new Uint8Array(encryptedData),
+    "M5",
+  );
+  t.deepEquals(
+    decodePairSetupMessage(
+      encodePairSetupMessage({
+        state: 2,
+        error: HOMEKIT_TLV_ERRORS.Backoff,
+        retryDelay: 300,
+      }),
+    ),
+    { state: 2, error: HOMEKIT_TLV_ERRORS.Backoff, retryDelay: 300 },
+    "error with retry delay",
+  );
+
+  t.throws(
+    () => decodePairSetupMessage(new Uint8Array([0x01, 0x00])),
+    TLV8FormatError,
+    "no state",
+  );
+  t.throws(
+    () => decodePairSetupMessage(new Uint8Array([0x06, 0x01, 0x01, 0x03])),
+    TLV8FormatError,
+    "truncated",
+  );
+  t.end();
+});
@@ -0,0 +1,181 @@
+import { decrypt, encrypt } from "../src/encryption";
+import { deriveSessionKeys, hkdf } from "../src/key-schedule";
+import { SRPParameters } from "../src/parameters";
+import { SRPRoutines } from "../src/routines";
+import { SRPClientSession } from "../src/session-client";
+import { SRPServerSession } from "../src/session-server";
+import { createVerifierAndSalt, generateRandomString } from "../src/utils";
+import { fromHex, toHex, test } from "./tests";
+
+test("#HKDF RFC 5869 test vectors", async (t) => {
+  t.plan(3);
+  const sha256 = new SRPParameters(
+    SRPParameters.PrimeGroup[2048],
+    SRPParameters.H.SHA256,
+  );
+  const sha1 = new SRPParameters(
+    SRPParameters.PrimeGroup[2048],
+    SRPParameters.H.SHA1,
+  );
+  const ikm = fromHex("0b".repeat(22)).buffer;
+
+  t.equals(
+    toHex(
+      await hkdf(
+        sha256,
+        ikm,
+        fromHex("000102030405060708090a0b0c").buffer,
+        fromHex("f0f1f2f3f4f5f6f7f8f9").buffer,
+        42,
+      ),
+    ),
+    "3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865",
+    "Test case 1, SHA-256",
+  );
+  t.equals(
+    toHex(await hkdf(sha256, ikm, new ArrayBuffer(0), new ArrayBuffer(0), 42)),
+    "8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8",
+    "Test case 3, SHA-256, no salt and info",
+  );
+  t.equals(
+    toHex(await hkdf(sha1, ikm, new ArrayBuffer(0), new ArrayBuffer(0), 42)),
+    "0ac1af7002b3d761d1e55298da9d0506b9ae52057220a306e07b6b87e8df21d0ea00033de03984d34918",
+    "Test case 7, SHA-1, no salt and info",
+  );
+});
+
+test("#KeySchedule session keys", async (t) => {
+  t.plan(7);
+
+  const routines = new SRPRoutines(new SRPParameters());
+  const username = await generateRandomString(10);
+  const password = await generateRandomString(15);
+  const { s: salt, v: verifier } = await createVerifierAndSalt(
+    routines,
+    username,
+    password,
+  );
+  const serverStep1 = await new SRPServerSession(routines).step1(
+    username,
+    salt,
+    verifier,
+  );
+  const client = await (
+    await new SRPClientSession(routines).step1(username, password)
+  ).step2(salt, serverStep1.B);
+  const server = await serverStep1.step2(client.A, client.M1);
+  await client.step3(server.M2);
+
+  const clientKeys = await client.sessionKeys();
+  const serverKeys = await server.sessionKeys();
+  t.deepEqual(
+    toHex(clientKeys.clientToServer),
+    toHex(serverKeys.clientToServer),
+    "Both sides derive the same client to server key",
+  );
+  t.deepEqual(
+    toHex(clientKeys.serverToClient),
+    toHex(serverKeys.serverToClient),
+    "Both sides derive the same server to client key",
+  );
+  t.notEqual(
+    toHex(clientKeys.clientToServer),
+    toHex(clientKeys.serverToClient),
+    "Directions use distinct keys",
+  );
+  t.equal(
+    clientKeys,
+    await client.sessionKeys(),
+    "Default keys are derived only once",
+  );
+
+  const withContext = await client.sessionKeys({ context: "api/v1" });
+  t.notEqual(
+    toHex(withContext.clientToServer),
+    toHex(clientKeys.clientToServer),
+    "Context changes the keys",
+  );
+
+  const sha256Keys = await deriveSessionKeys(
+    new SRPRoutines(
+      new SRPParameters(SRPParameters.PrimeGroup[2048], SRPParameters.H.SHA256),
+    ),
+    client.S,
+    { A: client.A, B: client.B, salt },
+  );
+  t.notEqual(
+    toHex(sha256Keys.clientToServer),
+    toHex(clientKeys.clientToServer),
+    "Session hash function is used",
+  );
+
+  const { iv, ciphertext } = await encrypt(clientKeys.clientToServer, "hi");
+  await t.rejects(
+    () => decrypt(clientKeys.serverToClient, iv, ciphertext),
+    /authentication tag mismatch/i,
+    "Message can't be decrypted with the other direction key",
+  );
+});
+
+test("#KeySchedule exported keying material", async (t) => {
+  t.plan(7);
+
+  const routines = new SRPRoutines(new SRPParameters());
+  const username = await generateRandomString(10);
+  const password = await generateRandomString(15);
+  const { s: salt, v: verifier } = await createVerifierAndSalt(
+    routines,
+    username,
+    password,
+  );
+  const serverStep1 = await new SRPServerSession(routines).step1(
+    username,
+    salt,
+    verifier,
+  );
+  const client = await (
+    await new SRPClientSession(routines).step1(username, password)
+  ).step2(salt, serverStep1.B);
+
+  t.notOk(
+    "exportKeyingMaterial" in serverStep1,
+    "Server needs a verified client",
+  );
+  const server = await serverStep1.step2(client.A, client.M1);
+  await client.step3(server.M2);
+
+  const token = await client.exportKeyingMaterial("websocket token", "", 32);
+  t.equals(
+    toHex(token),
+    toHex(await server.exportKeyingMaterial("websocket token", "", 32)),
+    "Both sides export the same bytes",
+  );
+  t.equals(token.byteLength, 32, "Requested length");
+  t.notEqual(
+    toHex(await client.exportKeyingMaterial("file key", "", 32)),
+    toHex(token),
+    "Label separates keys",
+  );
+  t.notEqual(
+    toHex(await client.exportKeyingMaterial("websocket token", "room 1", 32)),
+    toHex(token),
+    "Context separates keys",
+  );
+  t.notEqual(
+    toHex(await client.exportKeyingMaterial("websocket token", "", 16)),
+    toHex(token).slice(0, 32),
+    "Shorter output isn't a prefix",
+  );
+  const { clientToServer } = await client.sessionKeys();
+  t.notEqual(
+    toHex(
+      await client.exportKeyingMaterial(
+        "tssrp6a client to server",
+        new ArrayBuffer(0),
+        32,
+      ),
+    ),
+    toHex(clientToServer),
+    "Session key labels don't export session keys",
+  );
+});
@@ -1,4 +1,4 @@
-import { SRPParameters } from "../src/parameters";
+import { PrimeGroupName, SRPParameters } from "../src/parameters";
 import { bigIntToArrayBuffer, hashBitCount } from "../src/utils";
 import { test } from "./tests";
 
@@ -13,19 +13,36 @@ test("no hash function", (t) => {
 });
 
 test("hash bit count", async (t) => {
-  t.plan(4);
-  const expectedBitSize = [160, 256, 384, 512];
+  t.plan(14);
+  const expectedBitSize = [160, 256, 384, 512, 256, 512, 512];
   await Promise.all(
     Object.keys(SRPParameters.H).map(async (key, idx) => {
-      const parameters = new SRPParameters(
-        SRPParameters.PrimeGroup[2048],
-        SRPParameters.H[key],
-      );
+      const H = SRPParameters.H[key];
+      const parameters = new SRPParameters(SRPParameters.PrimeGroup[2048], H);
       t.equals(expectedBitSize[idx], await hashBitCount(parameters), key);
+      t.equals(
+        (await H(new ArrayBuffer(1))).byteLength,
+        H.outputLength,
+        `${key} output length`,
+      );
     }),
   );
 });
 
+test("hash bit count uses the declared output length", async (t) => {
+  const H = Object.assign(
+    (): Promise<ArrayBuffer> => {
+      throw new Error("should not be called");
+    },
+    { outputLength: 28 },
+  );
+  t.equals(
+    await hashBitCount(new SRPParameters(SRPParameters.PrimeGroup[2048], H)),
+    224,
+  );
+  t.end();
+});
+
 test("Size of N is correct", (t) => {
   t.plan(1);
   // Yes, the 256 bits number is actually 257 bits number
@@ -40,3 +57,48 @@ test("Size of N is correct", (t) => {
   actualSizeInBytes.sort((x, y) => x - y);
   t.deepEqual(expectedSizeInBytes, actualSizeInBytes, "N sizes are correct");
 });
+
+test("RFC 5054 groups have the named size and generator", (t) => {
+  const expected: [PrimeGroupName, number, bigint][] = [
+    ["rfc5054-1024", 1024, BigInt(2)],
+    ["rfc5054-1536", 1536, BigInt(2)],
+    ["rfc5054-2048", 2048, BigInt(2)],
+    ["rfc5054-3072", 3072, BigInt(5)],
+    ["rfc5054-4096", 4096, BigInt(5)],
+    ["rfc5054-6144", 6144, BigInt(5)],
+    ["rfc5054-8192", 8192, BigInt(19)],
+  ];
+  t.plan(expected.length * 2);
+  for (const [name, bits, g] of expected) {
+    const group = SRPParameters.NamedPrimeGroup[name];
+    t.equals(group.N.toString(2).length, bits, `${name} N bits`);
+    t.equals(group.g, g, `${name} g`);
+  }
+});
+
+test("legacy names select the original groups", (t) => {
+  t.plan(2);
+  t.equals(
+    SRPParameters.NamedPrimeGroup["legacy-768"],
+    SRPParameters.PrimeGroup[768],
+    "legacy-768",
+  );
+  t.equals(
+    SRPParameters.NamedPrimeGroup["rfc5054-2048"],
+    SRPParameters.PrimeGroup[2048],
+    "The default group is rfc5054-2048",
+  );
+});
+
+test("prime group lookup by name", (t) => {
+  t.plan(3);
+  t.equals(
+    SRPParameters.getPrimeGroup("rfc5054-3072"),
+    SRPParameters.NamedPrimeGroup["rfc5054-3072"],
+  );
+  t.throws(() => SRPParameters.getPrimeGroup("rfc5054-1000"), /rfc5054-2048/);
+  t.throws(
+    () => SRPParameters.getPrimeGroup("toString"),
+    /Unknown prime group/,
+  );
+});
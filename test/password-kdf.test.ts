@@ -0,0 +1,188 @@
+import { pbkdf2Sync } from "crypto";
+import { PasswordKdfCostError } from "../src/errors";
+import { SRPParameters } from "../src/parameters";
+import {
+  createPasswordKdf,
+  PASSWORD_KDF_DEFAULTS,
+  PasswordKdfParams,
+} from "../src/password-kdf";
+import { SRPSecurityPolicy } from "../src/policy";
+import { SRPRoutines } from "../src/routines";
+import { SRPClientSession } from "../src/session-client";
+import { SRPServerSession } from "../src/session-server";
+import { createVerifierAndSalt } from "../src/utils";
+import { toHex, test } from "./tests";
+
+const encode = (text: string) =>
+  new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+test("#PasswordKdf PBKDF2 matches node", async (t) => {
+  t.plan(1);
+  const kdf = createPasswordKdf({
+    algorithm: "PBKDF2",
+    hash: "SHA-512",
+    iterations: 1000,
+  });
+  t.equals(
+    toHex(await kdf.derive(encode("password"), encode("salt"), 64)),
+    pbkdf2Sync("password", "salt", 1000, 64, "sha512").toString("hex"),
+  );
+});
+
+test("#PasswordKdf scrypt RFC 7914 section 12", async (t) => {
+  t.plan(2);
+  const small = createPasswordKdf({ algorithm: "scrypt", N: 16, r: 1, p: 1 });
+  t.equals(
+    toHex(await small.derive(encode(""), encode(""), 64)),
+    "77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442" +
+      "fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906",
+  );
+  const larger = createPasswordKdf({
+    algorithm: "scrypt",
+    N: 1024,
+    r: 8,
+    p: 16,
+  });
+  t.equals(
+    toHex(await larger.derive(encode("password"), encode("NaCl"), 64)),
+    "fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162" +
+      "2eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640",
+  );
+});
+
+test("#PasswordKdf rejects invalid parameters", (t) => {
+  const invalid = [
+    { algorithm: "scrypt", N: 1000, r: 8, p: 1 },
+    { algorithm: "scrypt", N: 2 ** 30, r: 8, p: 1 },
+    {
+      algorithm: "argon2id",
+      memoryKiB: 2 ** 21,
+      iterations: 1,
+      parallelism: 1,
+    },
+    { algorithm: "argon2id", memoryKiB: 64, iterations: 0, parallelism: 1 },
+    { algorithm: "PBKDF2", hash: "SHA-1", iterations: 1000 },
+    { algorithm: "bcrypt" },
+  ] as unknown as PasswordKdfParams[];
+  t.plan(invalid.length + 1);
+  for (const params of invalid) {
+    t.throws(() => createPasswordKdf(params), JSON.stringify(params));
+  }
+  t.doesNotThrow(
+    () => Object.values(PASSWORD_KDF_DEFAULTS).map(createPasswordKdf),
+    "Defaults are valid",
+  );
+});
+
+test("#PasswordKdf hardens x and travels with the verifier", async (t) => {
+  t.plan(3);
+  const parameters = new SRPParameters();
+  // costs small enough for tests
+  const policy = new SRPSecurityPolicy({
+    ...SRPSecurityPolicy.STRICT,
+    passwordKdf: {
+      ...SRPSecurityPolicy.STRICT.passwordKdf,
+      minArgon2idMemoryKiB: 64,
+      minArgon2idCost: 64,
+    },
+  });
+  const plainRoutines = new SRPRoutines(parameters, { policy });
+  const kdfRoutines = new SRPRoutines(parameters, {
+    policy,
+    passwordKdf: createPasswordKdf({
+      algorithm: "argon2id",
+      memoryKiB: 64,
+      iterations: 1,
+      parallelism: 1,
+    }),
+  });
+
+  const record = await createVerifierAndSalt(kdfRoutines, "alice", "secret");
+  t.deepEqual(
+    record.kdf,
+    kdfRoutines.passwordKdf!.params,
+    "KDF parameters are stored with the verifier",
+  );
+  t.notEqual(
+    await kdfRoutines.computeX("alice", record.s, "secret"),
+    await plainRoutines.computeX("alice", record.s, "secret"),
+    "KDF changes x",
+  );
+
+  const server = await new SRPServerSession(plainRoutines).step1(
+    "alice",
+    record.s,
+    record.v,
+  );
+  const client = await (
+    await new SRPClientSession(plainRoutines).step1("alice", "secret")
+  ).step2(record.s, server.B, record.kdf);
+  await client.step3((await server.step2(client.A, client.M1)).M2);
+  t.pass("Client uses the KDF parameters sent by the server");
+});
+
+test("#PasswordKdf costs sent by the server are checked", async (t) => {
+  const routines = new SRPRoutines(new SRPParameters());
+  const { s, v } = await createVerifierAndSalt(routines, "alice", "secret");
+  const server = await new SRPServerSession(routines).step1("alice", s, v);
+  const rejected = [
+    { algorithm: "PBKDF2", hash: "SHA-256", iterations: 1 },
+    { algorithm: "PBKDF2", hash: "SHA-256", iterations: 10 ** 9 },
+    { algorithm: "scrypt", N: 16, r: 1, p: 1 },
+    { algorithm: "scrypt", N: 2 ** 14, r: 1, p: 2 ** 16 },
+    { algorithm: "scrypt", N: 2 ** 13, r: 1, p: 1 },
+    { algorithm: "argon2id", memoryKiB: 64, iterations: 1, parallelism: 1 },
+    {
+      algorithm: "argon2id",
+      memoryKiB: 8,
+      iterations: 2 ** 20,
+      parallelism: 1,
+    },
+    {
+      algorithm: "argon2id",
+      memoryKiB: 2 ** 20,
+      iterations: 16,
+      parallelism: 1,
+    },
+  ] as PasswordKdfParams[];
+  for (const kdf of rejected) {
+    const client = await new SRPClientSession(routines).step1(
+      "alice",
+      "secret",
+    );
+    await t.rejects(
+      () => client.step2(s, server.B, kdf),
+      PasswordKdfCostError,
+      JSON.stringify(kdf),
+    );
+  }
+
+  const policy = SRPSecurityPolicy.STRICT;
+  t.doesNotThrow(
+    () =>
+      Object.values(PASSWORD_KDF_DEFAULTS).forEach((params) =>
+        policy.checkPasswordKdf(params),
+      ),
+    "Defaults are accepted",
+  );
+  t.throws(
+    () =>
+      policy.checkPasswordKdf({
+        algorithm: "PBKDF2",
+        hash: "SHA-256",
+        iterations: 1000,
+      }),
+    /PBKDF2 iterations of 1000 is out of the accepted range/,
+    "Strict policy rejects 1000 PBKDF2 iterations",
+  );
+  t.doesNotThrow(
+    () =>
+      SRPSecurityPolicy.LEGACY.checkPasswordKdf({
+        algorithm: "PBKDF2",
+        hash: "SHA-256",
+        iterations: 1000,
+      }),
+    "Legacy policy accepts 1000 PBKDF2 iterations",
+  );
+  t.end();
+});
@@ -0,0 +1,117 @@
+import { SRPPolicyError } from "../src/errors";
+import { SRPParameters } from "../src/parameters";
+import { SRPSecurityPolicy } from "../src/policy";
+import { SRPRoutines } from "../src/routines";
+import { SRPClientSession } from "../src/session-client";
+import { SRPServerSession } from "../src/session-server";
+import { createVerifierAndSalt } from "../src/utils";
+import { test } from "./tests";
+
+test("#SRPSecurityPolicy strict by default", (t) => {
+  t.plan(4);
+  t.equals(
+    new SRPRoutines(new SRPParameters()).policy,
+    SRPSecurityPolicy.STRICT,
+    "Default policy is strict",
+  );
+  t.throws(
+    () => new SRPRoutines(new SRPParameters(SRPParameters.PrimeGroup[256])),
+    SRPPolicyError,
+    "Small group is rejected",
+  );
+  t.throws(
+    () =>
+      new SRPRoutines(
+        new SRPParameters(SRPParameters.PrimeGroup[2048], SRPParameters.H.SHA1),
+      ),
+    /SHA1 is not allowed/,
+    "SHA-1 is rejected",
+  );
+  t.throws(
+    () =>
+      new SRPRoutines(
+        new SRPParameters(SRPParameters.PrimeGroup[2048], (data) =>
+          SRPParameters.H.SHA256(data),
+        ),
+      ),
+    SRPPolicyError,
+    "Unknown hash function is rejected",
+  );
+});
+
+test("#SRPSecurityPolicy legacy and custom policies", (t) => {
+  t.plan(5);
+  const sha1 = new SRPParameters(
+    SRPParameters.NamedPrimeGroup["rfc5054-1024"],
+    SRPParameters.H.SHA1,
+  );
+  t.doesNotThrow(
+    () => new SRPRoutines(sha1, { policy: SRPSecurityPolicy.LEGACY }),
+    "Legacy policy accepts 1024 bits and SHA-1",
+  );
+  t.throws(
+    () =>
+      new SRPRoutines(new SRPParameters(SRPParameters.PrimeGroup[768]), {
+        policy: SRPSecurityPolicy.LEGACY,
+      }),
+    SRPPolicyError,
+    "Legacy policy rejects 768 bits",
+  );
+  const custom = new SRPParameters(SRPParameters.PrimeGroup[2048], (data) =>
+    SRPParameters.H.SHA256(data),
+  );
+  t.doesNotThrow(
+    () => new SRPRoutines(custom, { policy: SRPSecurityPolicy.LEGACY }),
+    "Legacy policy accepts custom hash functions",
+  );
+  t.doesNotThrow(
+    () =>
+      new SRPRoutines(custom, {
+        policy: new SRPSecurityPolicy({
+          ...SRPSecurityPolicy.STRICT,
+          allowCustomHashes: true,
+        }),
+      }),
+    "Custom hash functions with a strict policy",
+  );
+  const policy = new SRPSecurityPolicy({
+    ...SRPSecurityPolicy.LEGACY,
+    minGroupBits: 256,
+  });
+  t.doesNotThrow(
+    () =>
+      new SRPRoutines(new SRPParameters(SRPParameters.PrimeGroup[256]), {
+        policy,
+      }),
+    "Custom policy based on a preset",
+  );
+});
+
+test("#SRPSecurityPolicy salt and private values", async (t) => {
+  t.plan(3);
+  const routines = new SRPRoutines(new SRPParameters());
+  await t.rejects(
+    () => createVerifierAndSalt(routines, "alice", "password123", 8),
+    SRPPolicyError,
+    "Short salt is rejected",
+  );
+
+  class WeakRoutines extends SRPRoutines {
+    public generatePrivateValue(): Promise<bigint> {
+      return Promise.resolve(BigInt(0xdeadbeef));
+    }
+  }
+  const weak = new WeakRoutines(new SRPParameters());
+  const { s, v } = await createVerifierAndSalt(routines, "alice", "password");
+  await t.rejects(
+    () => new SRPServerSession(weak).step1("alice", s, v),
+    SRPPolicyError,
+    "Server rejects a small private value",
+  );
+  const client = await new SRPClientSession(weak).step1("alice", "password");
+  await t.rejects(
+    () => client.step2(s, BigInt(2)),
+    /Private value of 32 bits/,
+    "Client rejects a small private value",
+  );
+});
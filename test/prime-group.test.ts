@@ -0,0 +1,136 @@
+import { PrimeGroupValidationError } from "../src/errors";
+import { SRPParameters } from "../src/parameters";
+import { generatePrimeGroup, validatePrimeGroup } from "../src/prime-group";
+import { test } from "./tests";
+
+test("#validatePrimeGroup built-in groups are cached", async (t) => {
+  t.plan(4);
+  const group = SRPParameters.NamedPrimeGroup["rfc5054-1536"];
+  const first = await validatePrimeGroup(group, { minBits: 1536 });
+  t.deepEqual(
+    [first.valid, first.isSafePrime, first.bits, first.errors],
+    [true, true, 1536, []],
+    "rfc5054-1536 is valid",
+  );
+  t.false(first.cached, "First validation computes");
+
+  const copy = { N: group.N, g: group.g };
+  const second = await validatePrimeGroup(copy, { minBits: 1536 });
+  t.true(second.cached, "Equal group is found in the cache");
+  t.equals(second.generatorOrder, first.generatorOrder, "Same results");
+});
+
+test("#validatePrimeGroup small groups", async (t) => {
+  t.plan(5);
+  const N = BigInt(23);
+  t.equals(
+    (await validatePrimeGroup({ N, g: BigInt(2) }, { minBits: 5 }))
+      .generatorOrder,
+    "q",
+    "2 is a quadratic residue mod 23",
+  );
+  t.equals(
+    (await validatePrimeGroup({ N, g: BigInt(5) }, { minBits: 5 }))
+      .generatorOrder,
+    "2q",
+    "5 generates the whole group",
+  );
+  t.deepEqual(
+    (await validatePrimeGroup({ N, g: N - BigInt(1) }, { minBits: 5 })).errors,
+    ["g must be between 1 and N - 1 exclusive"],
+    "g = N - 1 is rejected",
+  );
+  const notSafe = await validatePrimeGroup(
+    { N: BigInt(29), g: BigInt(2) },
+    { minBits: 5 },
+  );
+  t.deepEqual(
+    [notSafe.isPrime, notSafe.isSafePrime, notSafe.errors],
+    [true, false, ["N is not a safe prime"]],
+    "29 is prime but not a safe prime",
+  );
+  const composite = await validatePrimeGroup({
+    N: BigInt(1009 * 1013),
+    g: BigInt(2),
+  });
+  t.deepEqual(
+    composite.errors,
+    ["N has 20 bits, at least 2048 are required", "N is not prime"],
+    "Composite without small factors is rejected",
+  );
+});
+
+test("#SRPParameters.validated", async (t) => {
+  t.plan(3);
+  const parameters = await SRPParameters.validated(
+    SRPParameters.getPrimeGroup("rfc5054-2048"),
+  );
+  t.equals(parameters.NBits, 2048, "Valid group is accepted");
+  await t.rejects(
+    () => SRPParameters.validated(SRPParameters.getPrimeGroup("legacy-768")),
+    PrimeGroupValidationError,
+    "Small group is rejected",
+  );
+  try {
+    await SRPParameters.validated({ N: BigInt(29), g: BigInt(2) }, undefined, {
+      minBits: 5,
+    });
+  } catch (error) {
+    t.false(
+      (error as PrimeGroupValidationError).report.isSafePrime,
+      "Error carries the report",
+    );
+  }
+});
+
+test("#generatePrimeGroup", async (t) => {
+  t.plan(4);
+  let lastCandidates = 0;
+  const group = await generatePrimeGroup(64, {
+    onProgress: ({ bits, candidates }) => {
+      if (bits !== 64 || candidates !== lastCandidates + 1) {
+        t.fail(`Unexpected progress ${bits} ${candidates}`);
+      }
+      lastCandidates = candidates;
+    },
+  });
+  const report = await validatePrimeGroup(group, { minBits: 64 });
+  t.deepEqual(
+    [report.valid, report.bits, report.generatorOrder],
+    [true, 64, "2q"],
+    "Safe prime with a primitive root",
+  );
+  t.true(lastCandidates > 0, "Progress is reported");
+  t.equals(new SRPParameters(group).NBits, 64, "Usable as SRPParameters");
+
+  await t.rejects(
+    () =>
+      generatePrimeGroup(2048, {
+        onProgress: ({ candidates }) => candidates < 3,
+      }),
+    /cancelled/,
+    "Search is cancelled by the callback",
+  );
+});
+
+test("#generatePrimeGroup yields to the event loop and stops", async (t) => {
+  t.plan(3);
+  const controller = new AbortController();
+  // only fires if the search lets timers run
+  setTimeout(() => controller.abort(), 50);
+  await t.rejects(
+    () => generatePrimeGroup(2048, { signal: controller.signal }),
+    /cancelled/,
+    "Search is cancelled by a timer",
+  );
+  await t.rejects(
+    () => generatePrimeGroup(2048, { signal: controller.signal }),
+    /cancelled/,
+    "Aborted signal cancels before the first candidate",
+  );
+  await t.rejects(
+    () => generatePrimeGroup(2048, { maxCandidates: 100 }),
+    /No safe prime of 2048 bits found in 100 candidates/,
+    "Search stops after maxCandidates",
+  );
+});
@@ -0,0 +1,159 @@
+import { CognitoRoutines } from "../src/cognito";
+import { decryptToString } from "../src/encryption";
+import { deriveSessionKeys } from "../src/key-schedule";
+import { SRPParameters } from "../src/parameters";
+import { HomeKitRoutines } from "../src/homekit";
+import { SRPSecurityPolicy } from "../src/policy";
+import { getProfile, SRP_PROFILES, SRPProfileName } from "../src/profiles";
+import { RFC5054Routines } from "../src/rfc5054-routines";
+import { SRPRoutines } from "../src/routines";
+import { SRPClientSession } from "../src/session-client";
+import { SRPServerSession } from "../src/session-server";
+import { createVerifier, createVerifierAndSalt } from "../src/utils";
+import { test } from "./tests";
+
+const profileOptions = { userPoolId: "eu-west-1_AbCdEf123" };
+
+for (const name of Object.keys(SRP_PROFILES) as SRPProfileName[]) {
+  test(`profile ${name}`, async (t) => {
+    const profile = getProfile(name);
+    const routines = profile.createRoutines(profileOptions);
+    t.equals(routines.profile, name, "routines record the profile");
+    t.equals(routines.parameters, profile.parameters);
+
+    const record = await createVerifierAndSalt(routines, "alice", "secret");
+    t.equals(record.profile, name, "verifier record has the profile name");
+
+    const client = await SRPClientSession.fromProfile(
+      record.profile!,
+      profileOptions,
+    ).step1("alice", "secret");
+    const server = await SRPServerSession.fromProfile(
+      name,
+      profileOptions,
+    ).step1("alice", record.s, record.v);
+    const clientStep2 = await client.step2(record.s, server.B);
+    const { M2 } = await server.step2(clientStep2.A, clientStep2.M1);
+    await t.doesNotReject(() => clientStep2.step3(M2), "handshake succeeds");
+  });
+}
+
+test("profile routines and policies", (t) => {
+  t.plan(6);
+  t.ok(getProfile("rfc5054").createRoutines() instanceof RFC5054Routines);
+  t.ok(getProfile("homekit").createRoutines() instanceof HomeKitRoutines);
+  t.ok(
+    getProfile("cognito").createRoutines(profileOptions) instanceof
+      CognitoRoutines,
+  );
+  t.equals(getProfile("tssrp6a-legacy").policy, SRPSecurityPolicy.LEGACY);
+  t.equals(
+    getProfile("nimbus").createRoutines({
+      policy: SRPSecurityPolicy.LEGACY,
+    }).policy,
+    SRPSecurityPolicy.LEGACY,
+    "options override the policy of the profile",
+  );
+  t.throws(
+    () => getProfile("cognito").createRoutines(),
+    /userPoolId/,
+    "cognito requires a user pool",
+  );
+});
+
+test("unknown profile", (t) => {
+  t.plan(2);
+  t.throws(() => getProfile("srp3"), /Unknown SRP profile "srp3"/);
+  t.throws(() => getProfile("toString"), /Unknown SRP profile/);
+});
+
+// created by createVerifier of tssrp6a before the security policy
+const legacySalt = BigInt(
+  "0x8f1c2b6e4a9d03f75e21c8b4a6d9e0f1327c5a8b9e4d16f0a2c7e3b5d8f9a1c4",
+);
+const legacyVerifiers: Array<[string, SRPParameters, string]> = [
+  [
+    "default group and hash",
+    new SRPParameters(),
+    "1b14398bee4f341a24f3f082e9793958f2a9f1c7aa9cce826ac347760d9619584195ba14c2cd698cd95adfce0ad215e1287b9a028f8ca5c6710caf001d8d08762008d452c12882e798b6037b4b16eaf5a75fd5a04c219796dd41529705096bc0b0100fb0b219f0527f0000d2210c8f4e7089cc99cff81f153d8a4289331e9e35082962c54bb74aa1dcbfd8f30206779260a01c6f37d5a2754caf265d97d3114fe812f2f7f27a9f90da6eb33f660b7ea3fe6c4e0321805f0545a2778ab6c1c6143e8e08ccbef2a7759e473ff911b645ea166b6ba9d9dff4e5c26c502b07f2761b2fb44e380f2c5313fa97a71d5acfd99fab00fb45e81e1403e02f80ad855339fd",
+  ],
+  [
+    "1024 bits and SHA-1",
+    new SRPParameters(SRPParameters.PrimeGroup[1024], SRPParameters.H.SHA1),
+    "fa968a295254054bf70f5e6cd8a35f576cab6c795acdb7ebc9ce61a3e82106f958b6d7a64974a45a32e509443d7451781f4f2b704329ce1b732937169e1c551a96b4a3028e515b494c79e9ab7cd8705c65ab3c5fe9e24c975d805886a991bba3cd9d22752e9e2743d7b1589cd1ae094825d773b1237bebcdae911f3cf768d54",
+  ],
+];
+
+for (const [description, parameters, verifier] of legacyVerifiers) {
+  test(`profile tssrp6a-legacy with a verifier of ${description}`, async (t) => {
+    t.plan(5);
+    const v = BigInt(`0x${verifier}`);
+    const options = { parameters };
+    const routines = getProfile("tssrp6a-legacy").createRoutines(options);
+    t.equals(
+      await createVerifier(routines, "alice", legacySalt, "password123"),
+      v,
+      "verifier matches",
+    );
+
+    const server = await SRPServerSession.fromProfile(
+      "tssrp6a-legacy",
+      options,
+    ).step1("alice", legacySalt, v);
+    const client = await (
+      await SRPClientSession.fromProfile("tssrp6a-legacy", options).step1(
+        "alice",
+        "password123",
+      )
+    ).step2(legacySalt, server.B);
+    const serverStep2 = await server.step2(client.A, client.M1);
+    await t.doesNotReject(() => client.step3(serverStep2.M2), "handshake");
+
+    // raw key derivation: the key of encrypt given S, for both directions
+    t.equals(
+      await decryptToString(client.S, await client.encrypt("hello")),
+      "hello",
+      "session keys come from S alone",
+    );
+    const keys = await client.sessionKeys();
+    t.deepEqual(keys.clientToServer, keys.serverToClient);
+    const hkdfKeys = await deriveSessionKeys(
+      new SRPRoutines(parameters, { policy: routines.policy }),
+      client.S,
+      { A: client.A, B: server.B, salt: legacySalt },
+    );
+    t.notDeepEqual(
+      keys.clientToServer,
+      hkdfKeys.clientToServer,
+      "keys differ from the default key derivation",
+    );
+  });
+}
+
+test("profile parameters and padding", async (t) => {
+  t.plan(4);
+  const parameters = new SRPParameters(
+    SRPParameters.getPrimeGroup("rfc5054-3072"),
+  );
+  t.throws(
+    () => getProfile("nimbus").createRoutines({ parameters }),
+    /doesn't accept parameters/,
+  );
+  t.equals(
+    getProfile("tssrp6a-legacy").createRoutines({ parameters }).parameters,
+    parameters,
+  );
+  t.deepEqual(
+    getProfile("cognito").createRoutines(profileOptions).padding,
+    { k: false, u: false },
+    "routines get the padding of the profile",
+  );
+  const unpadded = new SRPRoutines(parameters, {
+    padding: { k: false, u: false },
+  });
+  t.notEqual(
+    await unpadded.computeK(),
+    await new SRPRoutines(parameters).computeK(),
+    "padding changes k",
+  );
+});
@@ -1,18 +1,20 @@
+import { createHash } from "crypto";
 import { SRPParameters } from "../src/parameters";
+import { SRPSecurityPolicy } from "../src/policy";
+import { RFC5054Routines } from "../src/rfc5054-routines";
 import { SRPRoutines } from "../src/routines";
 import { SRPClientSession } from "../src/session-client";
 import { SRPServerSession } from "../src/session-server";
 import { createVerifier, stringToArrayBuffer } from "../src/utils";
-import { test } from "./tests";
+import { backends, test } from "./tests";
 
 test("#SRP6aRFC5054", async (t) => {
   t.plan(8);
 
-  const N = BigInt(
-    "0xEEAF0AB9ADB38DD69C33F80AFA8FC5E86072618775FF3C0B9EA2314C9C256576D674DF7496EA81D3383B4813D692C6E0E0D5D8E250B98BE48E495C1D6089DAD15DC7D7B46154D6B6CE8EF4AD69B15D4982559B297BCF1885C529F566660E57EC68EDBC3C05726CC02FD4CBF4976EAA9AFD5138FE8376435B9FC61D2FC0EB06E3",
+  const parameters = new SRPParameters(
+    SRPParameters.getPrimeGroup("rfc5054-1024"),
+    SRPParameters.H["SHA1"],
   );
-  const g = BigInt("2");
-  const parameters = new SRPParameters({ N, g }, SRPParameters.H["SHA1"]);
   const username = "alice";
   const password = "password123";
 
@@ -40,9 +42,13 @@ test("#SRP6aRFC5054", async (t) => {
     }
   }
 
-  const clientRoutines = new TestClientRoutines(parameters);
+  const clientRoutines = new TestClientRoutines(parameters, {
+    policy: SRPSecurityPolicy.LEGACY,
+  });
 
-  const serverRoutines = new TestServerRoutines(parameters);
+  const serverRoutines = new TestServerRoutines(parameters, {
+    policy: SRPSecurityPolicy.LEGACY,
+  });
 
   const salt = BigInt("0xBEB25379D1A8581EB5A727673A2441EE");
   const verifier = await createVerifier(
@@ -94,7 +100,7 @@ test("#SRP6aRFC5054", async (t) => {
     (await clientRoutines.computeU(A, server.B)).toString(16),
     "U",
   );
-  const M2 = await server.step2(A, M1);
+  const { M2 } = await server.step2(A, M1);
   client_step2.step3(M2);
 
   t.equals(
@@ -108,3 +114,103 @@ test("#SRP6aRFC5054", async (t) => {
     "X step 2",
   );
 });
+
+for (const [backendName, createBackend] of backends) {
+  test(`#RFC5054Routines Appendix B end to end, ${backendName} backend`, async (t) => {
+    t.plan(10);
+    const backend = await createBackend();
+
+    const parameters = new SRPParameters(
+      SRPParameters.getPrimeGroup("rfc5054-1024"),
+      SRPParameters.H.SHA1,
+    );
+    const I = "alice";
+    const P = "password123";
+    const s = BigInt("0xBEB25379D1A8581EB5A727673A2441EE");
+
+    const routinesWithPrivateValue = (value: string) =>
+      new (class extends RFC5054Routines {
+        public async generatePrivateValue(): Promise<bigint> {
+          return BigInt(value);
+        }
+      })(parameters, { policy: SRPSecurityPolicy.LEGACY, backend });
+    const clientRoutines = routinesWithPrivateValue(
+      "0x60975527035CF2AD1989806F0407210BC81EDC04E2762A56AFD529DDDA2D4393",
+    );
+    const serverRoutines = routinesWithPrivateValue(
+      "0xE487CB59D31AC550471E81F00F6928E01DDA08E974A004F49E61F5D105284D20",
+    );
+
+    t.equals(
+      (await clientRoutines.computeK()).toString(16),
+      "7556aa045aef2cdd07abaf0f665c3e818913186f",
+      "k",
+    );
+    t.equals(
+      (await clientRoutines.computeX(I, s, P)).toString(16),
+      "94b7555aabe9127cc58ccf4993db6cf84d16c124",
+      "x",
+    );
+    const v = await createVerifier(clientRoutines, I, s, P);
+    t.equals(
+      v.toString(16),
+      "7e273de8696ffc4f4e337d05b4b375beb0dde1569e8fa00a9886d8129bada1f1822223ca1a605b530e379ba4729fdc59f105b4787e5186f5c671085a1447b52a48cf1970b4fb6f8400bbf4cebfbb168152e08ab5ea53d15c1aff87b2b9da6e04e058ad51cc72bfc9033b564e26480d78e955a5e29e7ab245db2be315e2099afb",
+      "v",
+    );
+
+    const server = await new SRPServerSession(serverRoutines).step1(I, s, v);
+    const client = await (
+      await new SRPClientSession(clientRoutines).step1(I, P)
+    ).step2(s, server.B);
+    t.equals(
+      client.A.toString(16),
+      "61d5e490f6f1b79547b0704c436f523dd0e560f0c64115bb72557ec44352e8903211c04692272d8b2d1a5358a2cf1b6e0bfcf99f921530ec8e39356179eae45e42ba92aeaced825171e1e8b9af6d9c03e1327f44be087ef06530e69f66615261eef54073ca11cf5858f0edfdfe15efeab349ef5d76988a3672fac47b0769447b",
+      "A",
+    );
+    t.equals(
+      server.B.toString(16),
+      "bd0c61512c692c0cb6d041fa01bb152d4916a1e77af46ae105393011baf38964dc46a0670dd125b95a981652236f99d9b681cbf87837ec996c6da04453728610d0c6ddb58b318885d7d82c7f8deb75ce7bd4fbaa37089e6f9c6059f388838e7a00030b331eb76840910440b1b27aaeaeeb4012b7d7665238a8e3fb004b117b58",
+      "B",
+    );
+    t.equals(
+      (await clientRoutines.computeU(client.A, server.B)).toString(16),
+      "ce38b9593487da98554ed47d70a7ae5f462ef019",
+      "u",
+    );
+    t.equals(
+      client.S.toString(16),
+      "b0dc82babcf30674ae450c0287745e7990a3381f63b387aaf271a10d233861e359b48220f7c4693c9ae12b0a6f67809f0876e2d013800d6c41bb59b6d5979b5c00a172b4a2a5903a0bdcaf8a709585eb2afafa8f3499b200210dcc1f10eb33943cd67fc88a2f39a4be5bec4ec0a3212dc346d7e474b29ede8a469ffeca686e5a",
+      "S",
+    );
+
+    // M1 and M2 as computed by RFC 2945 implementations
+    const sha1 = (...parts: Buffer[]) =>
+      createHash("sha1").update(Buffer.concat(parts)).digest();
+    const bytes = (n: bigint) => {
+      const hex = n.toString(16);
+      return Buffer.from(hex.length % 2 ? "0" + hex : hex, "hex");
+    };
+    const { N, g } = parameters.primeGroup;
+    const HN = sha1(bytes(N));
+    const Hg = sha1(Buffer.concat([Buffer.alloc(127), bytes(g)]));
+    const K = sha1(bytes(client.S));
+    const M1 = sha1(
+      HN.map((byte, i) => byte ^ Hg[i]) as Buffer,
+      sha1(Buffer.from(I)),
+      bytes(s),
+      bytes(client.A),
+      bytes(server.B),
+      K,
+    );
+    t.equals(client.M1.toString(16), M1.toString("hex"), "M1");
+
+    const { M2 } = await server.step2(client.A, client.M1);
+    t.equals(
+      M2.toString(16),
+      sha1(bytes(client.A), M1, K).toString("hex"),
+      "M2",
+    );
+    await client.step3(M2);
+    t.pass("client verified the server");
+  });
+}
@@ -0,0 +1,290 @@
+import { getAesGcm } from "../src/encryption";
+import {
+  MessageAuthenticationError,
+  SecureChannelError,
+  OutOfOrderMessageError,
+  ReplayedMessageError,
+} from "../src/errors";
+import { SRPParameters } from "../src/parameters";
+import { SRPRoutines } from "../src/routines";
+import { SRPClientSession } from "../src/session-client";
+import { SecureChannel } from "../src/secure-channel";
+import { SRPServerSession, SRPServerSessionStep2 } from "../src/session-server";
+import { createVerifierAndSalt, generateRandomString } from "../src/utils";
+import { test } from "./tests";
+
+const routines = new SRPRoutines(new SRPParameters());
+
+async function handshake() {
+  const username = await generateRandomString(10);
+  const password = await generateRandomString(15);
+  const { s: salt, v: verifier } = await createVerifierAndSalt(
+    routines,
+    username,
+    password,
+  );
+  const serverStep1 = await new SRPServerSession(routines).step1(
+    username,
+    salt,
+    verifier,
+  );
+  const client = await (
+    await new SRPClientSession(routines).step1(username, password)
+  ).step2(salt, serverStep1.B);
+  return { client, serverStep1 };
+}
+
+async function verifiedHandshake() {
+  const { client, serverStep1 } = await handshake();
+  const server = await serverStep1.step2(client.A, client.M1);
+  await client.step3(server.M2);
+  return { client, server };
+}
+
+test("#SecureChannel requires a verified session", async (t) => {
+  t.plan(2);
+  const { client, serverStep1 } = await handshake();
+
+  t.notOk("secureChannel" in serverStep1, "Server needs a verified client");
+  const { M2 } = await serverStep1.step2(client.A, client.M1);
+  await t.rejects(() => client.secureChannel(), /must be verified/i);
+  await client.step3(M2);
+});
+
+test("#SecureChannel messages in both directions", async (t) => {
+  t.plan(4);
+  const { client, server } = await verifiedHandshake();
+  const clientChannel = await client.secureChannel();
+  const serverChannel = await server.secureChannel();
+
+  for (const text of ["first", "second"]) {
+    t.equals(
+      await serverChannel.openToString(await clientChannel.seal(text)),
+      text,
+      `Server opens "${text}"`,
+    );
+  }
+  const reply = await serverChannel.seal("reply");
+  t.equals(await clientChannel.openToString(reply), "reply", "Client opens");
+
+  const concurrent = await Promise.all([
+    clientChannel.seal("a"),
+    clientChannel.seal("b"),
+  ]);
+  t.deepEqual(
+    await Promise.all(concurrent.map((m) => serverChannel.openToString(m))),
+    ["a", "b"],
+    "Concurrent messages open in order",
+  );
+});
+
+test("#SecureChannel opens once per session with its own keys", async (t) => {
+  t.plan(5);
+  const { client, server } = await verifiedHandshake();
+  const clientChannel = await client.secureChannel();
+  await server.secureChannel();
+
+  await t.rejects(
+    () => client.secureChannel(),
+    SecureChannelError,
+    "Client opens a single channel",
+  );
+  await t.rejects(
+    () => server.secureChannel({ context: "reconnect" }),
+    SecureChannelError,
+    "Server opens a single channel",
+  );
+  await t.rejects(
+    () =>
+      SRPServerSessionStep2.fromState(
+        routines,
+        JSON.parse(JSON.stringify(server)),
+      ).secureChannel(),
+    SecureChannelError,
+    "Restored session remembers the channel",
+  );
+
+  // the nonce of the first message with the key of encrypt doesn't open it
+  const message = await clientChannel.seal("first");
+  const { clientToServer } = await client.sessionKeys();
+  const aesGcm = await getAesGcm();
+  await t.rejects(
+    () =>
+      aesGcm.decrypt(clientToServer, message.slice(0, 12), message.slice(12)),
+    "Channel key differs from the encrypt key",
+  );
+  t.equals(
+    await server.decryptToString(await client.encrypt("still works")),
+    "still works",
+    "Session encryption is unaffected",
+  );
+});
+
+test("#SecureChannel rejects replayed, dropped and reordered messages", async (t) => {
+  t.plan(5);
+  const { client, server } = await verifiedHandshake();
+  const clientChannel = await client.secureChannel();
+  const serverChannel = await server.secureChannel();
+
+  const first = await clientChannel.seal("first");
+  const second = await clientChannel.seal("second");
+  const third = await clientChannel.seal("third");
+
+  await t.rejects(
+    () => serverChannel.open(second),
+    OutOfOrderMessageError,
+    "Message after a dropped one is rejected",
+  );
+  await serverChannel.open(first);
+  await t.rejects(
+    () => serverChannel.open(first),
+    ReplayedMessageError,
+    "Replayed message is rejected",
+  );
+
+  const tampered = new Uint8Array(second.slice(0));
+  tampered[tampered.length - 1] ^= 0x01;
+  await t.rejects(
+    () => serverChannel.open(tampered.buffer),
+    MessageAuthenticationError,
+    "Tampered message is rejected",
+  );
+
+  const resequenced = new Uint8Array(third);
+  resequenced[11] = 1;
+  await t.rejects(
+    () => serverChannel.open(resequenced.buffer),
+    MessageAuthenticationError,
+    "Sequence number is authenticated",
+  );
+
+  t.equals(
+    await serverChannel.openToString(second),
+    "second",
+    "Rejected messages don't advance the receive counter",
+  );
+});
+
+test("#SecureChannel associated data", async (t) => {
+  t.plan(2);
+  const { client, server } = await verifiedHandshake();
+  const clientChannel = await client.secureChannel();
+  const serverChannel = await server.secureChannel();
+
+  const message = await clientChannel.seal("body", "user:42");
+  await t.rejects(
+    () => serverChannel.open(message, "user:43"),
+    MessageAuthenticationError,
+    "Wrong associated data is rejected",
+  );
+  t.equals(
+    await serverChannel.openToString(message, "user:42"),
+    "body",
+    "Matching associated data opens",
+  );
+});
+
+const generationOf = (message: ArrayBuffer) =>
+  new DataView(message).getUint32(0);
+
+test("#SecureChannel rekeys after a number of messages or bytes", async (t) => {
+  t.plan(5);
+  const { client, server } = await verifiedHandshake();
+  const clientChannel = await client.secureChannel(undefined, {
+    rekeyAfterMessages: 2,
+  });
+  const serverChannel = await server.secureChannel(undefined, {
+    rekeyAfterBytes: 10,
+  });
+
+  const messages = await Promise.all(
+    ["a", "b", "c", "d", "e"].map((text) => clientChannel.seal(text)),
+  );
+  t.deepEqual(
+    messages.map(generationOf),
+    [0, 0, 1, 1, 2],
+    "Generation advances every 2 messages",
+  );
+  t.deepEqual(
+    await Promise.all(messages.map((m) => serverChannel.openToString(m))),
+    ["a", "b", "c", "d", "e"],
+    "Receiver follows the key generations",
+  );
+  t.equals(serverChannel.receiveGeneration, 2, "Receiver is at generation 2");
+
+  const replies = [
+    await serverChannel.seal("0123456789"),
+    await serverChannel.seal("x"),
+  ];
+  t.deepEqual(
+    replies.map(generationOf),
+    [0, 1],
+    "Generation advances after 10 bytes",
+  );
+  t.equals(
+    await server.decryptToString(await client.encrypt("still works")),
+    "still works",
+    "Ratchet doesn't wipe the session keys",
+  );
+});
+
+test("#SecureChannel manual rekey and forged generations", async (t) => {
+  t.plan(5);
+  const { client, server } = await verifiedHandshake();
+  const clientChannel = await client.secureChannel();
+  const serverChannel = await server.secureChannel();
+
+  const before = await clientChannel.seal("before");
+  await clientChannel.rekey();
+  await clientChannel.rekey();
+  const after = await clientChannel.seal("after");
+  t.equals(generationOf(after), 2, "Rekey skips generations");
+
+  await serverChannel.open(before);
+  const forged = new Uint8Array(after.slice(0));
+  forged[3] = 1;
+  await t.rejects(
+    () => serverChannel.open(forged.buffer),
+    MessageAuthenticationError,
+    "Generation is authenticated",
+  );
+  t.equals(
+    await serverChannel.openToString(after),
+    "after",
+    "Failed ratchet attempts don't change the receive key",
+  );
+
+  const stale = new Uint8Array(await clientChannel.seal("stale"));
+  stale[3] = 0;
+  await t.rejects(
+    () => serverChannel.open(stale.buffer),
+    MessageAuthenticationError,
+    "Messages of earlier generations are rejected",
+  );
+
+  await t.rejects(
+    () => server.secureChannel(undefined, { rekeyAfterMessages: 0 }),
+    SecureChannelError,
+    "Invalid rekey limit is rejected",
+  );
+});
+
+test("#SecureChannel ratchets with the hash function of the session", async (t) => {
+  t.plan(2);
+  const sha256 = new SRPParameters(undefined, SRPParameters.H.SHA256);
+  const key = new Uint8Array(32).fill(9).buffer;
+  const sender = new SecureChannel(sha256, key, key);
+  await sender.rekey();
+  const message = await sender.seal("next generation");
+
+  t.equals(
+    await new SecureChannel(sha256, key, key).openToString(message),
+    "next generation",
+    "Receiver with the same hash follows",
+  );
+  await t.rejects(
+    () => new SecureChannel(new SRPParameters(), key, key).open(message),
+    MessageAuthenticationError,
+    "Receiver with another hash derives another key",
+  );
+});
@@ -4,8 +4,13 @@ import {
   SRPClientSession,
   SRPClientSessionStep1,
   SRPClientSessionStep2,
+  SRPClientSessionStep2State,
 } from "../src/session-client";
-import { SRPServerSession, SRPServerSessionStep1 } from "../src/session-server";
+import {
+  SRPServerSession,
+  SRPServerSessionStep1,
+  SRPServerSessionStep2,
+} from "../src/session-server";
 import { createVerifierAndSalt, generateRandomString } from "../src/utils";
 import { test } from "./tests";
 
@@ -59,13 +64,86 @@ test("#SRP serialization", async (t) => {
     JSON.parse(serializedClientStep2),
   );
 
-  const M2 = await deserializedServerStep1.step2(
+  const serverStep2 = await deserializedServerStep1.step2(
     deserializedClientStep2.A,
     deserializedClientStep2.M1,
   );
-  await deserializedClientStep2.step3(M2);
+  await deserializedClientStep2.step3(serverStep2.M2);
 
   t.pass(
     `Serialization user:${testUsername}, password:${testPassword}, salt: ${salt}`,
   );
 });
+
+test("#SRP server step2 serialization", async (t) => {
+  t.plan(4);
+  const { s, v } = await createVerifierAndSalt(TEST_ROUTINES, "alice", "pw");
+  const serverStep1 = await new SRPServerSession(TEST_ROUTINES).step1(
+    "alice",
+    s,
+    v,
+  );
+  const clientStep2 = await (
+    await new SRPClientSession(TEST_ROUTINES).step1("alice", "pw")
+  ).step2(s, serverStep1.B);
+  const serverStep2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
+
+  const deserialized = SRPServerSessionStep2.fromState(
+    TEST_ROUTINES,
+    JSON.parse(JSON.stringify(serverStep2)),
+  );
+  t.equals(deserialized.identifier, "alice");
+  t.deepEquals(new Uint8Array(deserialized.K), new Uint8Array(serverStep2.K));
+  t.equals(
+    await clientStep2.decryptToString(await deserialized.encrypt("hello")),
+    "hello",
+  );
+  t.equals(
+    await deserialized.decryptToString(await clientStep2.encrypt("hi")),
+    "hi",
+  );
+});
+
+test("#SRP client step2 state", async (t) => {
+  t.plan(3);
+  const { s, v } = await createVerifierAndSalt(TEST_ROUTINES, "alice", "pw");
+  const serverStep1 = await new SRPServerSession(TEST_ROUTINES).step1(
+    "alice",
+    s,
+    v,
+  );
+  const clientStep2 = await (
+    await new SRPClientSession(TEST_ROUTINES).step1("alice", "pw")
+  ).step2(s, serverStep1.B);
+  const serverStep2 = await serverStep1.step2(clientStep2.A, clientStep2.M1);
+  await clientStep2.step3(serverStep2.M2);
+
+  const restored = SRPClientSessionStep2.fromState(
+    TEST_ROUTINES,
+    JSON.parse(JSON.stringify(clientStep2)),
+  );
+  await t.doesNotReject(
+    () => restored.exportKeyingMaterial("token", "", 16),
+    "Verified server is restored",
+  );
+  const unverified = SRPClientSessionStep2.fromState(TEST_ROUTINES, {
+    ...clientStep2.toJSON(),
+    serverVerified: false,
+  });
+  await t.rejects(
+    () => unverified.exportKeyingMaterial("token", "", 16),
+    /must be verified/,
+  );
+
+  // state saved by releases before the key schedule
+  const { A, M1, S } = clientStep2.toJSON();
+  t.throws(
+    () =>
+      SRPClientSessionStep2.fromState(TEST_ROUTINES, {
+        A,
+        M1,
+        S,
+      } as SRPClientSessionStep2State),
+    /lacks B and salt.*new handshake/,
+  );
+});
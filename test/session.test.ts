@@ -59,7 +59,7 @@ test("#SRP6a_Nimbusds_Session success", async (t) => {
     );
     const client_step2 = await client.step2(salt, server.B);
 
-    const M2 = await server.step2(client_step2.A, client_step2.M1);
+    const { M2 } = await server.step2(client_step2.A, client_step2.M1);
     await client_step2.step3(M2);
     t.pass(
       `Random test #${i} user:${testUsername}, password:${testPassword}, salt: ${salt}`,
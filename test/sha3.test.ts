@@ -0,0 +1,83 @@
+import { createHash, createHmac } from "crypto";
+import { SRPParameters } from "../src/parameters";
+import { sha3 } from "../src/sha3";
+import { hmac } from "../src/utils";
+import { toHex, test } from "./tests";
+
+const ABC = new TextEncoder().encode("abc");
+// the 1600 bit message of the NIST examples, longer than both rates
+const A3 = new Uint8Array(200).fill(0xa3);
+
+test("#SHA3 FIPS 202 examples", (t) => {
+  t.plan(6);
+  t.equals(
+    toHex(sha3(new Uint8Array(0), 32)),
+    "a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a",
+  );
+  t.equals(
+    toHex(sha3(ABC, 32)),
+    "3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532",
+  );
+  t.equals(
+    toHex(sha3(A3, 32)),
+    "79f38adec5c20307a98ef76e8324afbfd46cfd81b22e3973c65fa1bd9de31787",
+  );
+  t.equals(
+    toHex(sha3(new Uint8Array(0), 64)),
+    "a69f73cca23a9ac5c8b567dc185a756e97c982164fe25859e0d1dcc1475c80a6" +
+      "15b2123af1f5f94c11e3e9402c3ac558f500199d95b6d3e301758586281dcd26",
+  );
+  t.equals(
+    toHex(sha3(ABC, 64)),
+    "b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e" +
+      "10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0",
+  );
+  t.equals(
+    toHex(sha3(A3, 64)),
+    "e76dfad22084a8b1467fcf2ffa58361bec7628edf5f3fdc0e4805dc48caeeca8" +
+      "1b7c13c30adf52a3659584739a2df46be589c51ca1a4a8416df6545a1ce8ba00",
+  );
+});
+
+test("#SHA3 matches node", (t) => {
+  const lengths = [1, 71, 72, 73, 135, 136, 137, 1000];
+  t.plan(2 * lengths.length);
+  for (const length of lengths) {
+    const data = Uint8Array.from({ length }, (_, i) => (i * 7) & 0xff);
+    t.equals(
+      toHex(sha3(data, 32)),
+      createHash("sha3-256").update(data).digest("hex"),
+      `SHA3-256 of ${length} bytes`,
+    );
+    t.equals(
+      toHex(sha3(data, 64)),
+      createHash("sha3-512").update(data).digest("hex"),
+      `SHA3-512 of ${length} bytes`,
+    );
+  }
+});
+
+test("#SHA3 and BLAKE2b in SRPParameters.H", async (t) => {
+  const algorithms: { [key: string]: string } = {
+    SHA3_256: "sha3-256",
+    SHA3_512: "sha3-512",
+    BLAKE2b: "blake2b512",
+  };
+  t.plan(2 * Object.keys(algorithms).length);
+  const key = new Uint8Array(200).fill(0x0b);
+  for (const [name, algorithm] of Object.entries(algorithms)) {
+    const H = SRPParameters.H[name];
+    t.equals(
+      toHex(new Uint8Array(await H(ABC.buffer))),
+      createHash(algorithm).update(ABC).digest("hex"),
+      `${name} digest`,
+    );
+    // HMAC needs the declared block length, the SHA3 rates are not 64 or 128
+    const parameters = new SRPParameters(SRPParameters.PrimeGroup[2048], H);
+    t.equals(
+      toHex(new Uint8Array(await hmac(parameters, key.buffer, ABC.buffer))),
+      createHmac(algorithm, key).update(ABC).digest("hex"),
+      `${name} HMAC`,
+    );
+  }
+});
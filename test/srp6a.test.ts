@@ -49,7 +49,7 @@ test("#SRP6aSession success", async (t) => {
   const srp6aClient_step2 = await srp6aClient.step2(salt, server.B);
 
   // servers checks client prove M1 and sends server prove M2 to client
-  const M2 = await server.step2(srp6aClient_step2.A, srp6aClient_step2.M1);
+  const { M2 } = await server.step2(srp6aClient_step2.A, srp6aClient_step2.M1);
 
   // client ensures server identity
   await srp6aClient_step2.step3(M2);
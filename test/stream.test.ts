@@ -0,0 +1,134 @@
+import {
+  createDecryptStream,
+  createEncryptStream,
+  DEFAULT_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+} from "../src/stream";
+import { test } from "./tests";
+
+const key = new Uint8Array(32).fill(7).buffer;
+
+async function pipe(
+  chunks: Uint8Array[],
+  stream: TransformStream<Uint8Array, Uint8Array>,
+): Promise<Uint8Array[]> {
+  const output: Uint8Array[] = [];
+  await new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  })
+    .pipeThrough(stream)
+    .pipeTo(new WritableStream({ write: (chunk) => void output.push(chunk) }));
+  return output;
+}
+
+const join = (chunks: Uint8Array[]): Uint8Array => {
+  const joined = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  chunks.reduce((offset, chunk) => {
+    joined.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return joined;
+};
+
+const payload = (length: number): Uint8Array =>
+  Uint8Array.from({ length }, (_, i) => (i * 31) & 0xff);
+
+test("#Stream roundtrip", async (t) => {
+  const sizes = [0, 1, 99, 100, 250, 1000];
+  t.plan(sizes.length + 1);
+
+  for (const size of sizes) {
+    const plaintext = payload(size);
+    // uneven input chunks so records don't line up with writes
+    const input = [plaintext.slice(0, 33), plaintext.slice(33)];
+    const encrypted = await pipe(
+      input,
+      createEncryptStream(key, { chunkSize: 100 }),
+    );
+    const decrypted = join(await pipe(encrypted, createDecryptStream(key)));
+    t.deepEqual(decrypted, plaintext, `${size} bytes`);
+  }
+
+  const encrypted = join(await pipe([payload(10)], createEncryptStream(key)));
+  t.equals(
+    new DataView(encrypted.buffer).getUint32(1),
+    DEFAULT_CHUNK_SIZE,
+    "Default chunk size is recorded in the header",
+  );
+});
+
+test("#Stream rejects truncated and reordered records", async (t) => {
+  t.plan(4);
+  const chunkSize = 100;
+  const recordSize = chunkSize + 16;
+  const encrypted = join(
+    await pipe([payload(350)], createEncryptStream(key, { chunkSize })),
+  );
+  const header = encrypted.subarray(0, 12);
+  const records = [0, 1, 2, 3].map((i) =>
+    encrypted.subarray(12 + i * recordSize, 12 + (i + 1) * recordSize),
+  );
+
+  await t.rejects(
+    () => pipe([header, ...records.slice(0, 3)], createDecryptStream(key)),
+    /authentication tag mismatch/i,
+    "Dropping the final record is detected",
+  );
+  await t.rejects(
+    () => pipe([header], createDecryptStream(key)),
+    /authentication tag mismatch|truncated/i,
+    "Stream without records is rejected",
+  );
+  await t.rejects(
+    () =>
+      pipe(
+        [header, records[1], records[0], records[2], records[3]],
+        createDecryptStream(key),
+      ),
+    /authentication tag mismatch/i,
+    "Reordered records are detected",
+  );
+  await t.rejects(
+    () =>
+      pipe(
+        [encrypted],
+        createDecryptStream(key, { associatedData: "other context" }),
+      ),
+    /authentication tag mismatch/i,
+    "Associated data is authenticated",
+  );
+});
+
+test("#Stream limits the chunk size", async (t) => {
+  t.plan(4);
+  t.throws(
+    () => createEncryptStream(key, { chunkSize: MAX_CHUNK_SIZE + 1 }),
+    /Invalid chunk size/,
+  );
+
+  const encrypted = join(
+    await pipe([payload(250)], createEncryptStream(key, { chunkSize: 100 })),
+  );
+  const forged = encrypted.slice(0, 12);
+  new DataView(forged.buffer).setUint32(1, 0xffffffff);
+  await t.rejects(
+    () => pipe([forged], createDecryptStream(key)),
+    /Invalid chunk size: 4294967295/,
+    "Forged header is rejected before buffering records",
+  );
+  await t.rejects(
+    () => pipe([encrypted], createDecryptStream(key, { maxChunkSize: 99 })),
+    /Invalid chunk size: 100/,
+    "Chunk size above maxChunkSize is rejected",
+  );
+  t.deepEqual(
+    join(
+      await pipe([encrypted], createDecryptStream(key, { maxChunkSize: 100 })),
+    ),
+    payload(250),
+    "Chunk size up to maxChunkSize is accepted",
+  );
+});
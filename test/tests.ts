@@ -1,6 +1,8 @@
 import tapDiff from "tap-diff";
 
 import tape from "tape-promise/tape";
+import { BigIntBackend, nativeBackend } from "../src/bigint-backend";
+import { createWasmBackend } from "../src/wasm-backend";
 
 if (!process.env.TAPE_RAW_OUTPUT) {
   tape.createStream().pipe(tapDiff()).pipe(process.stdout);
@@ -11,3 +13,25 @@ tape.onFinish(() => {
 });
 
 export const test = tape;
+
+/**
+ * Lowercase hex encoding of the bytes
+ */
+export const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(new Uint8Array(bytes))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+/**
+ * Bytes of an even length hex string
+ */
+export const fromHex = (hex: string): Uint8Array<ArrayBuffer> =>
+  new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+
+/**
+ * Big integer backends, tests of test vectors run with each of them
+ */
+export const backends: Array<[string, () => Promise<BigIntBackend>]> = [
+  ["native", async () => nativeBackend],
+  ["wasm", createWasmBackend],
+];
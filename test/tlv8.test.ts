@@ -0,0 +1,56 @@
+import { TLV8FormatError } from "../src/errors";
+import {
+  decodeTLV8,
+  decodeTLV8Integer,
+  encodeTLV8,
+  encodeTLV8Integer,
+  TLV8_SEPARATOR,
+} from "../src/tlv8";
+import { test } from "./tests";
+
+test("#TLV8 items and fragments", (t) => {
+  const long = Uint8Array.from({ length: 600 }, (_, i) => i & 0xff);
+  const items = [
+    { type: 0x06, value: new Uint8Array([1]) },
+    { type: 0x05, value: long },
+    { type: 0x01, value: new Uint8Array(0) },
+  ];
+  const encoded = encodeTLV8(items);
+  t.equals(encoded.length, 3 + 3 * 2 + 600 + 2);
+  t.deepEquals(
+    [3, 4, 260, 261, 517, 518].map((i) => encoded[i]),
+    [0x05, 255, 0x05, 255, 0x05, 90],
+    "600 bytes in 255 + 255 + 90",
+  );
+  t.deepEquals(decodeTLV8(encoded), items);
+  t.end();
+});
+
+test("#TLV8 lists keep separators", (t) => {
+  const items = [
+    { type: 0x01, value: new Uint8Array([1]) },
+    { type: TLV8_SEPARATOR, value: new Uint8Array(0) },
+    { type: 0x01, value: new Uint8Array([2]) },
+  ];
+  t.deepEquals(decodeTLV8(encodeTLV8(items)), items);
+  t.end();
+});
+
+test("#TLV8 integers are little-endian", (t) => {
+  t.deepEquals(Array.from(encodeTLV8Integer(0)), [0]);
+  t.deepEquals(Array.from(encodeTLV8Integer(0x1234)), [0x34, 0x12]);
+  t.equals(decodeTLV8Integer(new Uint8Array([0x34, 0x12])), 0x1234);
+  t.throws(() => encodeTLV8Integer(-1), TLV8FormatError);
+  t.throws(() => decodeTLV8Integer(new Uint8Array(0)), TLV8FormatError);
+  t.end();
+});
+
+test("#TLV8 malformed data", (t) => {
+  t.throws(() => decodeTLV8(new Uint8Array([0x06])), TLV8FormatError);
+  t.throws(() => decodeTLV8(new Uint8Array([0x06, 2, 1])), TLV8FormatError);
+  t.throws(
+    () => encodeTLV8([{ type: 256, value: new Uint8Array(0) }]),
+    TLV8FormatError,
+  );
+  t.end();
+});
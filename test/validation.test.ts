@@ -0,0 +1,135 @@
+import {
+  PublicValueRangeError,
+  PublicValueSubgroupError,
+  ScramblingParameterError,
+  SRPValidationError,
+} from "../src/errors";
+import { SRPParameters } from "../src/parameters";
+import { SRPRoutines } from "../src/routines";
+import { SRPClientSession } from "../src/session-client";
+import { SRPServerSession } from "../src/session-server";
+import { createVerifierAndSalt } from "../src/utils";
+import { test } from "./tests";
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+const routines = new SRPRoutines(new SRPParameters());
+const { N } = routines.parameters.primeGroup;
+
+// g = 4 is a quadratic residue, it generates the subgroup of order q
+const residueRoutines = new SRPRoutines(new SRPParameters({ N, g: BigInt(4) }));
+
+const malicious: Array<[string, bigint, typeof SRPValidationError]> = [
+  ["0", ZERO, PublicValueRangeError],
+  ["N", N, PublicValueRangeError],
+  ["2N", TWO * N, PublicValueRangeError],
+  ["N + 1", N + ONE, PublicValueRangeError],
+  ["1", ONE, PublicValueSubgroupError],
+  ["N - 1", N - ONE, PublicValueSubgroupError],
+];
+
+const serverFor = async (routines: SRPRoutines) => {
+  const { s, v } = await createVerifierAndSalt(routines, "alice", "secret");
+  return {
+    s,
+    v,
+    server: await new SRPServerSession(routines).step1("alice", s, v),
+  };
+};
+
+const clientFor = (routines: SRPRoutines) =>
+  new SRPClientSession(routines).step1("alice", "secret");
+
+test("client rejects malicious B", async (t) => {
+  const { s } = await serverFor(routines);
+  for (const [name, B, error] of malicious) {
+    const client = await clientFor(routines);
+    await t.rejects(() => client.step2(s, B), error, `B = ${name}`);
+  }
+  t.end();
+});
+
+test("server rejects malicious A", async (t) => {
+  for (const [name, A, error] of malicious) {
+    const { server } = await serverFor(routines);
+    await t.rejects(() => server.step2(A, ONE), error, `A = ${name}`);
+  }
+  t.end();
+});
+
+test("server rejects missing A", async (t) => {
+  const { server } = await serverFor(routines);
+  for (const A of [undefined, null, "1", 1]) {
+    await t.rejects(
+      () => server.step2(A as unknown as bigint, ONE),
+      SRPValidationError,
+      `A = ${A}`,
+    );
+  }
+  t.end();
+});
+
+test("server base forcing S = 0", async (t) => {
+  t.plan(1);
+  const { s, v } = await serverFor(routines);
+  const client = await clientFor(routines);
+  const kv = ((await routines.computeK()) * v) % N;
+  await t.rejects(
+    () => client.step2(s, kv),
+    PublicValueSubgroupError,
+    "client rejects B = kv",
+  );
+});
+
+test("public values outside the subgroup of g", async (t) => {
+  t.plan(3);
+  const { s, v, server } = await serverFor(residueRoutines);
+  const client = await clientFor(residueRoutines);
+  // B - kv = -g^b is not a quadratic residue, as -1 isn't for safe primes
+  const kv = ((await residueRoutines.computeK()) * v) % N;
+  await t.rejects(
+    () => client.step2(s, (TWO * kv + N - server.B) % N),
+    PublicValueSubgroupError,
+    "client rejects B = kv - g^b",
+  );
+  const { A, M1 } = await client.step2(s, server.B);
+  await t.rejects(
+    () => server.step2(N - A, M1),
+    PublicValueSubgroupError,
+    "server rejects -A",
+  );
+  await t.doesNotReject(() => server.step2(A, M1), "server accepts A");
+});
+
+test("zero scrambling parameter", async (t) => {
+  t.plan(2);
+  class ZeroURoutines extends SRPRoutines {
+    public computeU(): Promise<bigint> {
+      return Promise.resolve(N);
+    }
+  }
+  const zeroURoutines = new ZeroURoutines(routines.parameters);
+  const { s, server } = await serverFor(zeroURoutines);
+  const client = await clientFor(zeroURoutines);
+  await t.rejects(
+    () => client.step2(s, server.B),
+    ScramblingParameterError,
+    "client rejects u = 0",
+  );
+  const { A } = await (await clientFor(routines)).step2(s, server.B);
+  await t.rejects(
+    () => server.step2(A, ONE),
+    ScramblingParameterError,
+    "server rejects u = 0",
+  );
+});
+
+test("isValidPublicValue", (t) => {
+  t.plan(4);
+  t.ok(routines.isValidPublicValue(TWO));
+  t.notOk(routines.isValidPublicValue(N + TWO));
+  t.notOk(routines.isValidPublicValue(N - ONE));
+  t.notOk(residueRoutines.isValidPublicValue(N - BigInt(4)));
+});